@@ -1,13 +1,107 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import JSZip from 'jszip';
-import { extractKeywords } from './utils/imageClassifier';
+import { analyzeImage, extractKeywords, generateAltText, type ImageInfo } from './utils/imageClassifier';
+import { buildAltText } from './utils/altText';
+import { buildManifestCsv } from './utils/manifest';
+import { findMapping, readMappingFile, type MappingEntry } from './utils/mapping';
+import {
+  DEFAULT_INDEX_WIDTH,
+  DEFAULT_NAME_TEMPLATE,
+  NAME_TOKENS,
+  findUnknownTokens,
+  hasIndexToken,
+  renderNameTemplate,
+  sanitizeKeyword
+} from './utils/filenameTemplate';
+import {
+  claimName,
+  clearIssuedNames,
+  loadIssuedNames,
+  nextIssuedIndex,
+  recordIssuedNames,
+  releaseNames,
+  type IssuedName
+} from './utils/nameRegistry';
+import {
+  DEFAULT_SLUG_POLICY,
+  detectStuffing,
+  slugSegments,
+  stripChineseStopWords,
+  transliterate,
+  type SlugMode,
+  type SlugOverrides,
+  type SlugPolicy,
+  type StuffingWarning
+} from './utils/slug';
+import { DEFAULT_BUDGET_KB } from './utils/compression';
+import { DEFAULT_MIN_SSIM } from './utils/ssim';
+import {
+  DEFAULT_JPEG_ENCODER,
+  type ChromaSubsampling,
+  type JpegEncoderId,
+  type JpegEncoderOptions
+} from './utils/jpegEncoder';
+import { computeDrawRect, type FitMode, type ResizeTarget } from './utils/resize';
+import type { SubjectAnalysis } from './utils/smartCrop';
+import {
+  findDuplicateGroups,
+  type DuplicateGroup,
+  type ImageFingerprint
+} from './utils/perceptualHash';
+import {
+  auditWarnings,
+  type AuditWarning,
+  type ImageAudit
+} from './utils/qualityAudit';
+import {
+  DEFAULT_FLATTEN,
+  type FlattenMode,
+  type FlattenOptions,
+  type PadBackground
+} from './utils/background';
+import {
+  detectEncodableTypes,
+  formatToMime,
+  mimeToExt,
+  resolveOutputType,
+  type OutputFormat
+} from './utils/formats';
+import { type PipelineOptions, type ProgressFn } from './utils/imagePipeline';
+import { animationFormatToMime, type AnimationFormat } from './utils/animation';
+import { DEFAULT_CONCURRENCY, ImageWorkerPool } from './utils/workerPool';
+import { isHeicFile, resolveSourceType } from './utils/heic';
+import { applyMetadataPolicy, type MetadataPolicy } from './utils/metadata';
+import { canPassThrough } from './utils/passThrough';
+import {
+  DEFAULT_WATERMARK,
+  type WatermarkOptions,
+  type WatermarkPosition
+} from './utils/watermark';
+import {
+  DEFAULT_VARIANT_WIDTHS,
+  buildPictureSnippet,
+  parseVariantWidths,
+  variantName,
+  type ResponsiveVariant
+} from './utils/responsive';
 
 type InputImage = {
   id: string;
   file: File;
   previewUrl: string;
   customKeyword?: string; // 单张图片的自定义关键词
-  forceSquare?: boolean; // 单张图片是否强制1:1
+  sku?: string; // 商品 SKU，用于文件名模板中的 {sku}
+  altText?: string; // 手动修改或 AI 生成的 alt 文本，未设置时按关键词自动生成
+  handle?: string; // 商品 handle（来自对应表），写入导出清单
+  classification?: ImageInfo; // AI 识别结果（颜色、材质），用于文件名模板
+  aspectPresetId?: AspectPresetId; // 单张图片的输出比例，未设置时使用全局设置
+  fitMode?: FitMode; // 单张图片的裁剪/留白方式，未设置时使用全局设置
+  subject?: SubjectAnalysis; // 智能裁剪分析出的主体区域（基于解码后的原图）
+  fingerprint?: ImageFingerprint; // 感知哈希指纹，用于发现重复图片
+  audit?: ImageAudit; // 质量检查结果（模糊、溢出等）
+  animated?: boolean; // 多帧动图（预分析得出），按动图格式导出
+  watermark?: boolean; // 单张图片是否加水印，未设置时跟随全局开关
+  byteBudgetKb?: number; // 单张图片的体积预算（KB），未设置时使用全局预算
   processingProgress?: number; // 处理进度 0-100
   isProcessing?: boolean; // 是否正在处理
 };
@@ -16,29 +110,55 @@ type ProcessedImage = {
   id: string;
   originalName: string;
   seoName: string;
+  keyword: string; // 清洗后的关键词，用于按商品分组
+  index: number; // 文件名使用的序号（重名时已顺延）
+  altText: string;
+  handle?: string;
   blob: Blob;
   sizeKb: number;
   originalSizeKb: number;
   savedPercent: number;
   downloadUrl: string;
+  quality?: number; // 最终使用的编码质量（0-1），无损格式或退回原图时为 undefined
+  ssim?: number; // 输出与处理后画面的 SSIM 感知相似度，无损格式或退回原图时为 undefined
+  colorProfile?: string; // 已转换为 sRGB 的源色彩配置（如 Display P3）
+  unsupportedProfile?: string; // 无法转换为 sRGB 的源色彩配置（LUT 型或 CMYK），颜色可能偏差
+  alphaDiscarded?: boolean; // 透明区域因输出格式不支持透明而被合成到背景上
+  outputType: string; // 最终输出的 MIME 类型
+  frameCount?: number; // 动图的帧数，静态图为 undefined
+  formatFallback?: boolean; // 所选格式无法编码，已回退到其他格式
+  jpegFallback?: boolean; // MozJPEG 编码器不可用，已改用浏览器编码器
+  exifDropped?: boolean; // 按策略应保留的 EXIF 无法写入输出文件
+  width: number;
+  height: number;
+  variants: ResponsiveVariant[]; // 响应式尺寸变体（从小到大）
 };
 
-const MAX_FILES = 10;
+// 处理完成、尚未分配文件名的图片。文件名在整批处理完后按列表顺序分配，
+// 重名时顺延的序号和后缀不受 Worker 完成顺序影响
+type PendingImage = Omit<ProcessedImage, 'seoName' | 'index' | 'variants'> & {
+  renderName: (attempt: number) => string; // 第 attempt 次尝试的文件名（含扩展名），attempt 从 0 开始
+  baseIndex: number;
+  indexed: boolean; // 模板含序号时重名顺延序号，否则追加 -2、-3 ...
+  variants: Array<Omit<ResponsiveVariant, 'name'>>;
+  variantExt: string;
+};
 
-const sanitizeKeyword = (value: string) =>
-  value
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9\u4e00-\u9fa5\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-');
-
-const mimeToExt: Record<string, string> = {
-  'image/jpeg': 'jpg',
-  'image/png': 'png',
-  'image/webp': 'webp'
+// 单张图片处理参数（已合并全局设置与单张设置）
+type ProcessOptions = PipelineOptions & {
+  keyword: string;
+  index: number;
+  nameTemplate: string;
+  productName: string;
+  indexWidth: number;
+  slugMode: SlugMode;
+  slugOverrides: SlugOverrides;
+  slugPolicy: SlugPolicy;
+  metadataPolicy: MetadataPolicy;
 };
 
+const MAX_FILES = 10;
+
 type Lang = 'zh' | 'en';
 
 type Platform = 'all' | 'shopify' | 'woocommerce' | 'wix' | 'squarespace';
@@ -89,6 +209,157 @@ const getPlatformText = (platform: Platform, lang: Lang): string => {
   return platformNames[platform][lang];
 };
 
+type ResizePresetId =
+  | 'original'
+  | 'shopify'
+  | 'woocommerce-single'
+  | 'woocommerce-gallery'
+  | 'wix'
+  | 'squarespace'
+  | 'custom-longest'
+  | 'custom-exact';
+
+// 各平台推荐的输出尺寸
+const resizePresets: Array<{
+  id: ResizePresetId;
+  platform: Platform;
+  target: ResizeTarget | null;
+  label: Record<Lang, string>;
+}> = [
+  {
+    id: 'original',
+    platform: 'all',
+    target: null,
+    label: { zh: '保持原始尺寸', en: 'Keep original size' }
+  },
+  {
+    id: 'shopify',
+    platform: 'shopify',
+    target: { mode: 'fit', width: 2048, height: 2048 },
+    label: { zh: 'Shopify 2048×2048', en: 'Shopify 2048×2048' }
+  },
+  {
+    id: 'woocommerce-single',
+    platform: 'woocommerce',
+    target: { mode: 'fit', width: 1200, height: 1200 },
+    label: { zh: 'WooCommerce 单品图（最长边 1200）', en: 'WooCommerce single (1200 longest edge)' }
+  },
+  {
+    id: 'woocommerce-gallery',
+    platform: 'woocommerce',
+    target: { mode: 'exact', width: 600, height: 600 },
+    label: { zh: 'WooCommerce 图库（600×600 裁剪）', en: 'WooCommerce gallery (600×600 crop)' }
+  },
+  {
+    id: 'wix',
+    platform: 'wix',
+    target: { mode: 'fit', width: 1920, height: 1920 },
+    label: { zh: 'Wix（最长边 1920）', en: 'Wix (1920 longest edge)' }
+  },
+  {
+    id: 'squarespace',
+    platform: 'squarespace',
+    target: { mode: 'fit', width: 2500, height: 2500 },
+    label: { zh: 'Squarespace（最长边 2500）', en: 'Squarespace (2500 longest edge)' }
+  },
+  {
+    id: 'custom-longest',
+    platform: 'all',
+    target: null,
+    label: { zh: '自定义最长边', en: 'Custom longest edge' }
+  },
+  {
+    id: 'custom-exact',
+    platform: 'all',
+    target: null,
+    label: { zh: '自定义宽×高（居中裁剪）', en: 'Custom width×height (center crop)' }
+  }
+];
+
+const outputFormats: Array<{ value: OutputFormat; label: Record<Lang, string> }> = [
+  { value: 'keep', label: { zh: '保持原格式', en: 'Keep original' } },
+  { value: 'jpeg', label: { zh: 'JPEG', en: 'JPEG' } },
+  { value: 'webp', label: { zh: 'WebP', en: 'WebP' } },
+  { value: 'avif', label: { zh: 'AVIF', en: 'AVIF' } }
+];
+
+type AspectPresetId = 'original' | '1:1' | '4:5' | '3:4' | '2:3' | '16:9' | 'custom';
+
+// 输出比例预设（宽:高），custom 使用用户输入的比例
+const aspectPresets: Array<{
+  id: AspectPresetId;
+  ratio: [number, number] | null;
+  label: Record<Lang, string>;
+}> = [
+  { id: 'original', ratio: null, label: { zh: '保持原始比例', en: 'Original ratio' } },
+  { id: '1:1', ratio: [1, 1], label: { zh: '1:1 正方形', en: '1:1 square' } },
+  {
+    id: '4:5',
+    ratio: [4, 5],
+    label: { zh: '4:5 竖版（Instagram / 商品卡片）', en: '4:5 portrait (Instagram / product cards)' }
+  },
+  { id: '3:4', ratio: [3, 4], label: { zh: '3:4 竖版', en: '3:4 portrait' } },
+  { id: '2:3', ratio: [2, 3], label: { zh: '2:3 竖版', en: '2:3 portrait' } },
+  { id: '16:9', ratio: [16, 9], label: { zh: '16:9 横版', en: '16:9 landscape' } },
+  { id: 'custom', ratio: null, label: { zh: '自定义 宽:高', en: 'Custom W:H' } }
+];
+
+const jpegEncoders: Array<{ value: JpegEncoderId; label: Record<Lang, string> }> = [
+  { value: 'browser', label: { zh: '浏览器内置', en: 'Browser built-in' } },
+  { value: 'mozjpeg', label: { zh: 'MozJPEG（WASM，体积更小）', en: 'MozJPEG (WASM, smaller files)' } }
+];
+
+const chromaSubsamplings: Array<{ value: ChromaSubsampling; label: Record<Lang, string> }> = [
+  { value: '420', label: { zh: '4:2:0 色度抽样（更小）', en: '4:2:0 subsampling (smaller)' } },
+  { value: '444', label: { zh: '4:4:4 不抽样（更锐利）', en: '4:4:4 no subsampling (sharper)' } }
+];
+
+const animationFormats: Array<{ value: AnimationFormat; label: Record<Lang, string> }> = [
+  { value: 'webp', label: { zh: '动画 WebP', en: 'Animated WebP' } },
+  { value: 'gif', label: { zh: '优化 GIF', en: 'Optimized GIF' } }
+];
+
+const slugModes: Array<{ value: SlugMode; label: Record<Lang, string> }> = [
+  { value: 'keep', label: { zh: '保留中文', en: 'Keep Chinese' } },
+  { value: 'pinyin', label: { zh: '拼音', en: 'Pinyin' } },
+  { value: 'english', label: { zh: '英文（词典）', en: 'English (glossary)' } }
+];
+
+const flattenModes: Array<{ value: FlattenMode; label: Record<Lang, string> }> = [
+  { value: 'white', label: { zh: '白色', en: 'White' } },
+  { value: 'color', label: { zh: '自定义颜色', en: 'Custom colour' } },
+  { value: 'blur', label: { zh: '模糊边缘填充', en: 'Blurred edge fill' } }
+];
+
+// PNG 调色板颜色数，0 表示无损
+const pngColorOptions = [0, 256, 128, 64, 32, 16];
+
+const fitModes: Array<{ value: FitMode; label: Record<Lang, string> }> = [
+  { value: 'crop', label: { zh: '居中裁剪', en: 'Center crop' } },
+  { value: 'smart', label: { zh: '智能裁剪（跟随商品主体）', en: 'Smart crop (follow subject)' } },
+  { value: 'pad', label: { zh: '完整保留（四周留白）', en: 'Fit whole image (pad)' } }
+];
+
+const padBackgrounds: Array<{ value: PadBackground; label: Record<Lang, string> }> = [
+  { value: 'white', label: { zh: '白色背景', en: 'White' } },
+  { value: 'transparent', label: { zh: '透明背景', en: 'Transparent' } },
+  { value: 'edge', label: { zh: '取边缘颜色', en: 'Sampled edge colour' } }
+];
+
+const watermarkPositions: Array<{ value: WatermarkPosition; label: Record<Lang, string> }> = [
+  { value: 'bottom-right', label: { zh: '右下角', en: 'Bottom right' } },
+  { value: 'bottom-left', label: { zh: '左下角', en: 'Bottom left' } },
+  { value: 'top-right', label: { zh: '右上角', en: 'Top right' } },
+  { value: 'top-left', label: { zh: '左上角', en: 'Top left' } },
+  { value: 'center', label: { zh: '居中', en: 'Center' } }
+];
+
+const metadataPolicies: Array<{ value: MetadataPolicy; label: Record<Lang, string> }> = [
+  { value: 'strip', label: { zh: '全部移除', en: 'Strip all' } },
+  { value: 'privacy', label: { zh: '移除 GPS 和序列号，保留版权', en: 'Strip GPS & serials, keep copyright' } },
+  { value: 'keep', label: { zh: '全部保留', en: 'Keep all' } }
+];
+
 // 平台图标和提示信息
 const platformInfo: Record<
   Platform,
@@ -187,7 +458,104 @@ const messages: Record<
     keywordLabel: string;
     keywordPlaceholder: string;
     keywordHint: string;
-    checkboxLabel: string;
+    nameTemplateLabel: string;
+    nameTemplateHint: string;
+    nameTemplateUnknown: (tokens: string[]) => string;
+    slugModeLabel: string;
+    slugModeHint: string;
+    slugSegmentsTitle: string;
+    slugSegmentReset: string;
+    slugPolicyLabel: string;
+    slugStopWordsLabel: string;
+    slugDedupeLabel: string;
+    slugMaxLengthLabel: string;
+    slugPolicyHint: string;
+    stuffingWarning: (warning: StuffingWarning) => string;
+    numberingLabel: string;
+    indexStartLabel: string;
+    indexWidthLabel: string;
+    numberingHint: string;
+    continueNumbering: (start: number) => string;
+    issuedNamesCount: (count: number) => string;
+    clearIssuedNames: string;
+    nameIssuedWarning: string;
+    skuPlaceholder: string;
+    productNameLabel: string;
+    productNamePlaceholder: string;
+    productNameHint: string;
+    altTextLabel: string;
+    altTextHint: string;
+    altTextRegenerate: string;
+    altTextAiFailed: (reason: string) => string;
+    mappingImport: string;
+    mappingHint: string;
+    mappingInvalid: string;
+    mappingReadFailed: (reason: string) => string;
+    mappingSummary: (fileName: string, matched: number, total: number) => string;
+    mappingUnmatched: (names: string[]) => string;
+    mappingRemove: string;
+    aspectLabel: string;
+    aspectHint: string;
+    fitLabel: string;
+    fitHint: string;
+    smartCropPreview: string;
+    duplicateBadge: (group: number, similarity: number) => string;
+    duplicateHint: string;
+    keepBest: string;
+    keepBestHint: string;
+    keepSmallest: string;
+    keepSmallestHint: string;
+    duplicatesRemoved: (count: number) => string;
+    auditWarning: (warning: AuditWarning) => string;
+    auditHint: string;
+    defaultOption: (label: string) => string;
+    padBackgroundLabel: string;
+    resizeLabel: string;
+    resizeHint: string;
+    formatLabel: string;
+    formatHint: string;
+    formatUnsupported: string;
+    formatFallbackNote: string;
+    jpegFallbackNote: string;
+    exifDroppedNote: string;
+    jpegEncoderLabel: string;
+    jpegEncoderHint: string;
+    jpegProgressiveLabel: string;
+    flattenLabel: string;
+    flattenHint: string;
+    alphaDiscardedNote: string;
+    pngColorsLabel: string;
+    pngColorsHint: string;
+    pngColorsOption: (colors: number) => string;
+    pngDitherLabel: string;
+    variantsLabel: string;
+    variantsHint: string;
+    variantsCount: (count: number) => string;
+    animationFormatLabel: string;
+    animationFormatHint: string;
+    framesCount: (count: number) => string;
+    concurrencyLabel: string;
+    concurrencyHint: string;
+    watermarkLabel: string;
+    watermarkHint: string;
+    watermarkText: string;
+    watermarkLogo: string;
+    watermarkTextPlaceholder: string;
+    watermarkOpacity: string;
+    watermarkScale: string;
+    watermarkTile: string;
+    watermarkSingle: string;
+    metadataLabel: string;
+    metadataHint: string;
+    budgetLabel: string;
+    budgetHint: string;
+    budgetPlaceholderSingle: string;
+    qualityLabel: (quality: number) => string;
+    ssimLabel: string;
+    ssimHint: string;
+    ssimScore: (score: number) => string;
+    colorConverted: (profile: string) => string;
+    unsupportedProfileNote: (profile: string) => string;
     processButton: string;
     downloadAll: string;
     downloadSingle: string;
@@ -267,18 +635,140 @@ const messages: Record<
       '只需上传图片和填写一个关键词，即可完成图片重命名与压缩，准备好适合上架到 Shopify、WooCommerce、Wix 等平台的高质量商品图。',
     dropTitle: '拖拽图片到此，或点击选择文件',
     dropSub: (max: number) =>
-      `支持 JPG / PNG / WEBP / HEIC，单次最多 ${max} 张，所有处理均在你浏览器本地完成。`,
+      `支持 JPG / PNG / WEBP / HEIC / GIF（含动图），单次最多 ${max} 张，所有处理均在你浏览器本地完成。`,
     chooseImages: '选择图片',
     keywordLabel: '商品关键词（英文更利于 SEO）',
     keywordPlaceholder: '如：summer silk dress',
-    keywordHint: '将自动生成：关键词-序号.原格式，并清洗特殊字符与空格。',
-    checkboxLabel: '强制 1:1 正方形（自动居中裁剪，适合商品列表）',
+    keywordHint: '按文件名模板生成（默认：关键词-序号.原格式），并清洗特殊字符与空格。',
+    nameTemplateLabel: '文件名模板',
+    nameTemplateHint:
+      '可用占位符：{keyword} 关键词、{index} 序号（{index:3} 为 3 位）、{color} 颜色和 {material} 材质（来自 AI 识别）、{sku}、{width}x{height} 输出尺寸、{original} 原文件名、{date} 日期',
+    nameTemplateUnknown: (tokens: string[]) => `无法识别的占位符：${tokens.join('、')}`,
+    slugModeLabel: '中文文件名转写',
+    slugModeHint: '中文文件名在 Shopify、WooCommerce 上会被编码成难看的 URL，可离线转为拼音或英文（词典未收录的词使用拼音）。',
+    slugSegmentsTitle: '转写预览（可逐个修改）',
+    slugSegmentReset: '恢复自动',
+    slugPolicyLabel: '关键词精简',
+    slugStopWordsLabel: '去掉停用词（the、and、with、of、的 等）',
+    slugDedupeLabel: '合并重复词（dress-red-dress → dress-red）',
+    slugMaxLengthLabel: '关键词最长字符数（0 为不限）',
+    slugPolicyHint: '同时作用于手动填写和 AI 识别的关键词。过长、重复的文件名容易被搜索引擎视为堆砌，也会在部分平台后台被截断。',
+    stuffingWarning: (warning: StuffingWarning) =>
+      warning.repeated.length
+        ? `文件名有重复词：${warning.repeated.join('、')}`
+        : `文件名词数过多（${warning.words} 个）`,
+    numberingLabel: '编号',
+    indexStartLabel: '起始序号',
+    indexWidthLabel: '补零位数',
+    numberingHint:
+      '第二批图片可从 11 开始接续编号。导出过的文件名记录在本地浏览器（IndexedDB）中，之后重名时自动顺延，避免覆盖平台媒体库（如 Shopify Files）中的旧文件。',
+    continueNumbering: (start: number) => `接续上次编号（从 ${start} 开始）`,
+    issuedNamesCount: (count: number) => `已记录 ${count} 个导出的文件名`,
+    clearIssuedNames: '清空记录',
+    nameIssuedWarning: '与已导出的文件重名，处理时将自动顺延',
+    skuPlaceholder: 'SKU',
+    productNameLabel: '商品名称（可选）',
+    productNamePlaceholder: '如：Aurora Silk Midi Dress',
+    productNameHint: '用于生成 alt 文本，不影响文件名。',
+    altTextLabel: 'Alt',
+    altTextRegenerate: '重新生成',
+    altTextAiFailed: (reason) => `AI 生成 alt 文本失败：${reason}`,
+    altTextHint:
+      '图片的 alt 文本，对图片 SEO 和无障碍访问同样重要。默认按关键词和识别出的颜色、材质、风格生成，配置 OpenAI 后 AI 识别时会为尚未填写的图片看图生成，「重新生成」会覆盖已有文本；可直接修改，导出时写入 ZIP 中的 manifest.csv。',
+    mappingImport: '导入对应表（CSV / XLSX）',
+    mappingHint:
+      '按原文件名或通配符（如 IMG_12*.jpg）批量填写关键词、SKU、alt 文本和商品 handle。表头可用 filename / keyword / sku / alt / handle 或 文件名 / 关键词 / 货号；没有表头时按此顺序读取。之后上传的图片也会自动匹配。',
+    mappingInvalid: '无法读取对应表：请确认是 CSV 或 XLSX 文件，且包含文件名列',
+    mappingReadFailed: (reason) => `对应表解析失败：${reason}`,
+    mappingSummary: (fileName: string, matched: number, total: number) =>
+      `已导入 ${fileName}：${total} 张图片中匹配 ${matched} 张`,
+    mappingUnmatched: (names: string[]) => `未匹配：${names.join('、')}`,
+    mappingRemove: '移除对应表',
+    aspectLabel: '输出比例',
+    aspectHint: '同一批次统一比例，例如 1:1 商品列表或 4:5 竖版商品卡片。',
+    fitLabel: '改变比例时',
+    fitHint: '智能裁剪会在预览图上标出裁剪框；留白可完整保留落地灯、长裙等细长商品，透明背景输出为 JPEG 时使用白色。',
+    smartCropPreview: '智能裁剪区域',
+    duplicateBadge: (group: number, similarity: number) =>
+      `重复组 ${group} · 相似度 ${Math.round(similarity * 100)}%`,
+    duplicateHint: '这些图片看起来是同一张照片（如原图和重新导出的版本），重复的图库图片会拖慢页面并降低商品页质量',
+    keepBest: '保留最佳',
+    keepBestHint: '保留分辨率最高的一张（分辨率相同时保留文件较大、压缩较少的一张），删除同组其他图片',
+    keepSmallest: '保留最小',
+    keepSmallestHint: '保留文件最小的一张，删除同组其他图片',
+    duplicatesRemoved: (count: number) => `已删除 ${count} 张重复图片`,
+    auditWarning: (warning: AuditWarning) => {
+      switch (warning.kind) {
+        case 'blur':
+          return `可能模糊（清晰度 ${Math.round(warning.sharpness)}）`;
+        case 'lowResolution':
+          return warning.required.mode === 'fit'
+            ? `分辨率偏低：${warning.width}×${warning.height}，建议最长边至少 ${warning.required.width}px`
+            : `分辨率偏低：${warning.width}×${warning.height}，建议至少 ${warning.required.width}×${warning.required.height}`;
+        case 'highlights':
+          return `高光溢出 ${Math.round(warning.ratio * 100)}%`;
+        case 'shadows':
+          return `暗部溢出 ${Math.round(warning.ratio * 100)}%`;
+        case 'extremeAspect':
+          return `比例过于极端（${warning.ratio.toFixed(1)}:1）`;
+      }
+    },
+    auditHint: '上传前的本地质量检查：模糊、过小或过曝的图片会被平台放大或降低商品页质量，建议更换原图',
+    defaultOption: (label: string) => `默认（${label}）`,
+    padBackgroundLabel: '留白背景',
+    resizeLabel: '输出尺寸',
+    resizeHint: '按平台推荐尺寸缩小图片，只缩小不放大。',
+    formatLabel: '输出格式',
+    formatHint: '浏览器不支持的格式会自动回退（AVIF → WebP → JPEG）。',
+    formatUnsupported: '（当前浏览器不支持）',
+    formatFallbackNote: '已回退格式',
+    jpegFallbackNote: 'MozJPEG 不可用，已使用浏览器编码器',
+    exifDroppedNote: 'EXIF 未能写入输出文件',
+    jpegEncoderLabel: 'JPEG 编码器',
+    jpegEncoderHint: 'MozJPEG 首次使用时加载，支持渐进式和色度抽样设置，同等画质下体积通常小 15-30%。',
+    jpegProgressiveLabel: '渐进式 JPEG',
+    flattenLabel: '透明区域背景',
+    flattenHint: '透明 PNG / WebP 输出为 JPEG 等不支持透明的格式时使用，避免抠图出现黑边。',
+    alphaDiscardedNote: '已去除透明背景',
+    pngColorsLabel: 'PNG 调色板',
+    pngColorsHint: '减少颜色数并保留透明度，透明背景抠图通常可缩小 60-80%，输出仍为 PNG。',
+    pngColorsOption: (colors: number) => (colors ? `${colors} 色` : '无损（不量化）'),
+    pngDitherLabel: '抖动（平滑渐变）',
+    variantsLabel: '生成响应式尺寸（srcset）',
+    variantsHint: '以逗号分隔的宽度，下载全部时附带 <picture> 代码片段。',
+    variantsCount: (count: number) => `+${count} 个尺寸`,
+    animationFormatLabel: '动图输出格式',
+    animationFormatHint:
+      'GIF 和动画 WebP 会逐帧按相同的比例和尺寸裁剪缩放并加水印；浏览器不支持 WebP 编码时输出 GIF。动图使用固定质量，不参与体积预算',
+    framesCount: (count: number) => `${count} 帧`,
+    concurrencyLabel: '并行处理数',
+    concurrencyHint: '在后台线程中同时处理的图片数量，处理时页面保持流畅。',
+    watermarkLabel: '添加水印',
+    watermarkHint: '在压缩前叠加品牌文字或 Logo，可在图片列表中对单张图片关闭。',
+    watermarkText: '文字',
+    watermarkLogo: 'Logo 图片',
+    watermarkTextPlaceholder: '例如：© 你的品牌',
+    watermarkOpacity: '不透明度 %',
+    watermarkScale: '宽度占比 %',
+    watermarkTile: '平铺',
+    watermarkSingle: '水印',
+    metadataLabel: 'EXIF 元数据',
+    metadataHint: '照片方向会自动校正；GPS 定位和相机序列号可能泄露隐私。',
+    budgetLabel: '单张体积预算（KB）',
+    budgetHint: '自动查找不超过预算的最高压缩质量，0 表示不限制。',
+    budgetPlaceholderSingle: '预算 KB',
+    qualityLabel: (quality: number) => `质量 ${Math.round(quality * 100)}`,
+    ssimLabel: '最低感知质量（SSIM）',
+    ssimHint: '压缩后与原画面的相似度低于该值时自动提高质量（优先于体积预算），可避免渐变背景出现色带。0 表示不限制。',
+    ssimScore: (score: number) => `SSIM ${score.toFixed(3)}`,
+    colorConverted: (profile: string) => `${profile} → sRGB`,
+    unsupportedProfileNote: (profile: string) => `无法把 ${profile} 转换为 sRGB，颜色可能偏差`,
     processButton: '一键重命名并压缩',
     downloadAll: '下载全部',
     downloadSingle: '下载图片',
     clear: '清空',
     messageLimit: (max: number) => `已达到单次 ${max} 张上限，为保证浏览器流畅度。`,
-    messageInvalidType: '请选择 JPG, PNG, WEBP 或 HEIC 图片文件',
+    messageInvalidType: '请选择 JPG, PNG, WEBP, HEIC 或 GIF 图片文件',
     messageProcessing: '正在本地处理中，请稍候…',
     messageDone: '处理完成，可下载图片。',
     messageFail: '处理失败，请重试或更换图片。',
@@ -296,7 +786,7 @@ const messages: Record<
     workflowStep1Title: '选择一组商品图片',
     workflowStep1Desc: '上传你准备上架到 Shopify、WooCommerce、Wix、Squarespace 等电商平台的商品图，支持日常拍摄或已有商品图。',
     workflowStep2Title: '输入核心关键词并本地压缩',
-    workflowStep2Desc: '工具会在浏览器内将图片自动裁剪为 1:1（可选）并压缩为轻量格式。',
+    workflowStep2Desc: '工具会在浏览器内将图片统一为 1:1、4:5 等比例（可选）并压缩为轻量格式。',
     workflowStep3Title: '下载图片并上传到店铺',
     workflowStep3Desc: '直接上传到商品详情和集合页，完成一次性优化。',
     valueTitle: '不用再为商品图拍摄与处理花费大量时间',
@@ -312,7 +802,7 @@ const messages: Record<
     howStep1Desc:
       '将你准备上架到电商平台的商品图拖入页面，或点击按钮选择已有图片文件，支持常见电商图像格式。',
     howStep2Title: '输入关键词并开始本地处理',
-    howStep2Desc: '填写一个核心关键词，选择是否强制 1:1，然后一键启动本地压缩与重命名。',
+    howStep2Desc: '填写一个核心关键词，选择输出比例，然后一键启动本地压缩与重命名。',
     howStep3Title: '下载图片并上传到店铺',
     howStep3Desc: '把命名规整、体积更小的图片直接上传到商品详情和集合页，完成一次性优化。',
     footerSeoTitle: '为什么图片 SEO 优化 对电商网站这么重要？',
@@ -332,9 +822,9 @@ const messages: Record<
     faqQ3: '文件名一定要用英文吗？',
     faqA3:
       '建议优先使用英文或拼音，有助于欧美市场的搜索引擎更好理解；如果主要面向本地市场，也可以使用中文，我们会自动处理空格和特殊字符。',
-    faqQ4: '强制 1:1 裁剪会不会影响商品展示？',
+    faqQ4: '统一裁剪为 1:1 或 4:5 会不会影响商品展示？',
     faqA4:
-      '对于电商平台的集合页或网格列表，统一 1:1 比例通常能带来更整洁的视觉效果；如果你的商品需要完整纵向展示，也可以关闭该选项保持原始比例。',
+      '对于电商平台的集合页或网格列表，统一比例通常能带来更整洁的视觉效果；如果你的商品需要完整纵向展示，可以选择“完整保留（四周留白）”或保持原始比例。',
     aiButton: '✨ 智能识别',
     aiRenameButton: 'AI智能重命名',
     aiInitializing: '正在分析文件名...',
@@ -360,20 +850,148 @@ const messages: Record<
       'Just upload images and enter one keyword to batch rename and compress locally—ready for listing on Shopify, WooCommerce, Wix, and more.',
     dropTitle: 'Drag images here or click to select',
     dropSub: (max: number) =>
-      `Supports JPG / PNG / WEBP / HEIC, up to ${max} images per batch. All processing happens locally in your browser.`,
+      `Supports JPG / PNG / WEBP / HEIC / GIF (including animations), up to ${max} images per batch. All processing happens locally in your browser.`,
     chooseImages: 'Choose images',
     keywordLabel: 'Product keyword (English recommended for SEO)',
     keywordPlaceholder: 'e.g. summer silk dress',
     keywordHint:
-      'Will auto-generate: keyword-index.originalExt, with spaces/special characters cleaned.',
-    checkboxLabel: 'Force 1:1 square (auto center-crop, good for product grids)',
+      'Names follow the filename template (default: keyword-index.originalExt), with spaces/special characters cleaned.',
+    nameTemplateLabel: 'Filename template',
+    nameTemplateHint:
+      'Tokens: {keyword}, {index} ({index:3} for 3 digits), {color} and {material} (from AI detection), {sku}, {width}x{height} output size, {original} original name, {date}',
+    nameTemplateUnknown: (tokens: string[]) => `Unknown tokens: ${tokens.join(', ')}`,
+    slugModeLabel: 'Chinese filename slug',
+    slugModeHint:
+      'Chinese names get percent-encoded into ugly URLs on Shopify and WooCommerce. Convert them offline to pinyin or English (words missing from the glossary fall back to pinyin).',
+    slugSegmentsTitle: 'Slug preview (edit any segment)',
+    slugSegmentReset: 'Reset',
+    slugPolicyLabel: 'Keyword clean-up',
+    slugStopWordsLabel: 'Remove stop words (the, and, with, of, 的 ...)',
+    slugDedupeLabel: 'Collapse repeated words (dress-red-dress → dress-red)',
+    slugMaxLengthLabel: 'Max keyword length (0 = unlimited)',
+    slugPolicyHint:
+      'Applies to both manual and AI-detected keywords. Long, repetitive filenames look spammy to search engines and get truncated in some platform admins.',
+    stuffingWarning: (warning: StuffingWarning) =>
+      warning.repeated.length
+        ? `Repeated words in filename: ${warning.repeated.join(', ')}`
+        : `Too many words in filename (${warning.words})`,
+    numberingLabel: 'Numbering',
+    indexStartLabel: 'Start at',
+    indexWidthLabel: 'Digits',
+    numberingHint:
+      'Continue a second batch at 11 instead of 01. Exported filenames are recorded locally (IndexedDB) and later collisions are numbered onwards, so files in platform media libraries such as Shopify Files are never overwritten.',
+    continueNumbering: (start: number) => `Continue numbering (from ${start})`,
+    issuedNamesCount: (count: number) => `${count} exported filenames recorded`,
+    clearIssuedNames: 'Clear record',
+    nameIssuedWarning: 'Already exported under this name; it will be numbered onwards when processed',
+    skuPlaceholder: 'SKU',
+    productNameLabel: 'Product name (optional)',
+    productNamePlaceholder: 'e.g. Aurora Silk Midi Dress',
+    productNameHint: 'Used in alt text only; filenames are unaffected.',
+    altTextLabel: 'Alt',
+    altTextRegenerate: 'Regenerate',
+    altTextAiFailed: (reason) => `AI alt text failed: ${reason}`,
+    altTextHint:
+      'Alt text matters as much as the filename for image SEO and accessibility. Generated from the keyword and detected colour, material and style, or by looking at the image with OpenAI when configured (AI detect only fills empty alt text; Regenerate replaces it). Edit freely; it is exported in manifest.csv inside the ZIP.',
+    mappingImport: 'Import mapping (CSV / XLSX)',
+    mappingHint:
+      'Fill in keyword, SKU, alt text and product handle in bulk by original filename or glob (e.g. IMG_12*.jpg). Headers: filename / keyword / sku / alt / handle; without a header row the columns are read in that order. Images added later are matched too.',
+    mappingInvalid: 'Could not read the mapping: use a CSV or XLSX file with a filename column',
+    mappingReadFailed: (reason) => `Could not parse the mapping: ${reason}`,
+    mappingSummary: (fileName: string, matched: number, total: number) =>
+      `Imported ${fileName}: ${matched} of ${total} images matched`,
+    mappingUnmatched: (names: string[]) => `Unmatched: ${names.join(', ')}`,
+    mappingRemove: 'Remove mapping',
+    aspectLabel: 'Aspect ratio',
+    aspectHint: 'Keep a batch consistent, e.g. 1:1 grids or 4:5 portrait product cards.',
+    fitLabel: 'When changing ratio',
+    fitHint: 'Smart crop marks its crop box on the preview. Padding keeps tall products like floor lamps whole; transparent becomes white for JPEG output.',
+    smartCropPreview: 'Smart crop area',
+    duplicateBadge: (group: number, similarity: number) =>
+      `Duplicate group ${group} · ${Math.round(similarity * 100)}% similar`,
+    duplicateHint:
+      'These images look like the same shot (e.g. an original and a re-export). Duplicate gallery images add page weight and lower listing quality',
+    keepBest: 'Keep best',
+    keepBestHint:
+      'Keep the highest-resolution image (larger, less compressed file on ties) and delete the others in this group',
+    keepSmallest: 'Keep smallest',
+    keepSmallestHint: 'Keep the smallest file and delete the others in this group',
+    duplicatesRemoved: (count: number) =>
+      `Removed ${count} duplicate image${count === 1 ? '' : 's'}`,
+    auditWarning: (warning: AuditWarning) => {
+      switch (warning.kind) {
+        case 'blur':
+          return `Possibly blurry (sharpness ${Math.round(warning.sharpness)})`;
+        case 'lowResolution':
+          return warning.required.mode === 'fit'
+            ? `Low resolution: ${warning.width}×${warning.height}, ${warning.required.width}px longest edge recommended`
+            : `Low resolution: ${warning.width}×${warning.height}, at least ${warning.required.width}×${warning.required.height} recommended`;
+        case 'highlights':
+          return `${Math.round(warning.ratio * 100)}% clipped highlights`;
+        case 'shadows':
+          return `${Math.round(warning.ratio * 100)}% clipped shadows`;
+        case 'extremeAspect':
+          return `Extreme aspect ratio (${warning.ratio.toFixed(1)}:1)`;
+      }
+    },
+    auditHint:
+      'Local pre-upload check: blurry, tiny or overexposed images get upscaled by the platform or lower listing quality. Consider replacing the source',
+    defaultOption: (label: string) => `Default (${label})`,
+    padBackgroundLabel: 'Padding background',
+    resizeLabel: 'Output size',
+    resizeHint: 'Downscale to the platform\'s recommended size. Never upscales.',
+    formatLabel: 'Output format',
+    formatHint: 'Unsupported formats fall back automatically (AVIF → WebP → JPEG).',
+    formatUnsupported: ' (not supported in this browser)',
+    formatFallbackNote: 'Format fallback',
+    jpegFallbackNote: 'MozJPEG unavailable, used browser encoder',
+    exifDroppedNote: 'EXIF could not be kept',
+    jpegEncoderLabel: 'JPEG encoder',
+    jpegEncoderHint: 'MozJPEG loads on first use and supports progressive scans and chroma subsampling, usually 15-30% smaller at the same quality.',
+    jpegProgressiveLabel: 'Progressive JPEG',
+    flattenLabel: 'Transparency background',
+    flattenHint: 'Used when transparent PNG/WebP is saved as JPEG or another format without alpha, avoiding black halos.',
+    alphaDiscardedNote: 'Transparency removed',
+    pngColorsLabel: 'PNG palette',
+    pngColorsHint: 'Reduces colours while keeping transparency. Cut-outs usually shrink 60-80% and stay PNG.',
+    pngColorsOption: (colors: number) => (colors ? `${colors} colours` : 'Lossless (no quantization)'),
+    pngDitherLabel: 'Dithering (smoother gradients)',
+    variantsLabel: 'Generate responsive sizes (srcset)',
+    variantsHint: 'Comma-separated widths. Download All includes a <picture> snippet.',
+    variantsCount: (count: number) => `+${count} sizes`,
+    animationFormatLabel: 'Animated output',
+    animationFormatHint:
+      'GIF and animated WebP frames are cropped, resized and watermarked consistently; GIF is used when the browser cannot encode WebP. Animations use a fixed quality and ignore the size budget',
+    framesCount: (count: number) => `${count} frames`,
+    concurrencyLabel: 'Parallel workers',
+    concurrencyHint: 'Images processed at once in background threads, so the page stays responsive.',
+    watermarkLabel: 'Add watermark',
+    watermarkHint: 'Overlays brand text or a logo before compression. Can be turned off per image in the list.',
+    watermarkText: 'Text',
+    watermarkLogo: 'Logo image',
+    watermarkTextPlaceholder: 'e.g. © Your Brand',
+    watermarkOpacity: 'Opacity %',
+    watermarkScale: 'Width %',
+    watermarkTile: 'Tile',
+    watermarkSingle: 'Watermark',
+    metadataLabel: 'EXIF metadata',
+    metadataHint: 'Photo orientation is always corrected. GPS location and camera serials can leak private info.',
+    budgetLabel: 'Size budget per image (KB)',
+    budgetHint: 'Finds the highest quality that fits the budget. 0 means no limit.',
+    budgetPlaceholderSingle: 'Budget KB',
+    qualityLabel: (quality: number) => `Quality ${Math.round(quality * 100)}`,
+    ssimLabel: 'Minimum perceptual quality (SSIM)',
+    ssimHint: 'Raises quality when similarity to the source drops below this value (takes priority over the size budget), preventing banding on gradients. 0 means no limit.',
+    ssimScore: (score: number) => `SSIM ${score.toFixed(3)}`,
+    colorConverted: (profile: string) => `${profile} → sRGB`,
+    unsupportedProfileNote: (profile: string) => `Could not convert ${profile} to sRGB; colors may shift`,
     processButton: 'Rename & compress',
     downloadAll: 'Download All',
     downloadSingle: 'Download image',
     clear: 'Clear',
     messageLimit: (max: number) =>
       `Reached the limit of ${max} images per batch to keep the browser smooth.`,
-    messageInvalidType: 'Please select JPG, PNG, WEBP, or HEIC images.',
+    messageInvalidType: 'Please select JPG, PNG, WEBP, HEIC, or GIF images.',
     messageProcessing: 'Processing locally, please wait…',
     messageDone: 'Processing completed. You can download the images.',
     messageFail: 'Processing failed. Please retry with other images.',
@@ -393,7 +1011,7 @@ const messages: Record<
       'Upload the product photos you plan to list on Shopify, WooCommerce, Wix, Squarespace, or any eCommerce platform; everyday shots or existing images are fine.',
     workflowStep2Title: 'Enter a keyword and compress locally',
     workflowStep2Desc:
-      'We can auto crop to 1:1 (optional) and compress in your browser without uploading to servers.',
+      'We can reshape to 1:1, 4:5 and more (optional) and compress in your browser without uploading to servers.',
     workflowStep3Title: 'Download images and upload to your store',
     workflowStep3Desc:
       'Upload the renamed and smaller images directly to product pages and collections to finish optimization.',
@@ -411,7 +1029,7 @@ const messages: Record<
       'Drag your product images into the page or click to select. Common eCommerce formats are supported.',
     howStep2Title: 'Enter a keyword and start processing',
     howStep2Desc:
-      'Fill a core keyword, choose whether to force 1:1, then run one-click local compression and rename.',
+      'Fill a core keyword, pick an aspect ratio, then run one-click local compression and rename.',
     howStep3Title: 'Download images and upload to store',
     howStep3Desc:
       'Upload the renamed, smaller images directly to product and collection pages to finish optimization.',
@@ -432,9 +1050,9 @@ const messages: Record<
     faqQ3: 'Must filenames be in English?',
     faqA3:
       'English or pinyin is recommended for global search engines. For local markets, Chinese is fine—spaces and special characters are cleaned automatically.',
-    faqQ4: 'Will forcing 1:1 hurt my product display?',
+    faqQ4: 'Will reshaping to 1:1 or 4:5 hurt my product display?',
     faqA4:
-      'For collection grids, consistent 1:1 usually looks cleaner. If you need full-height shots, leave it off to keep the original ratio.',
+      'For collection grids, a consistent ratio usually looks cleaner. If you need full-height shots, choose "Fit whole image (pad)" or keep the original ratio.',
     aiButton: '✨ Smart Detect',
     aiRenameButton: 'AI Smart Rename',
     aiInitializing: 'Analyzing filenames...',
@@ -454,6 +1072,19 @@ const messages: Record<
   }
 };
 
+// 按对应表填写单张图片的关键词、SKU、alt 文本和 handle，表中为空的字段保留原值
+const applyMapping = (item: InputImage, entries: MappingEntry[]): InputImage => {
+  const entry = findMapping(item.file.name, entries);
+  if (!entry) return item;
+  return {
+    ...item,
+    customKeyword: entry.keyword ?? item.customKeyword,
+    sku: entry.sku ?? item.sku,
+    altText: entry.altText ?? item.altText,
+    handle: entry.handle ?? item.handle
+  };
+};
+
 const detectLangFromNavigator = (): Lang => {
   if (typeof navigator === 'undefined') return 'zh';
   const nav = navigator.language?.toLowerCase() || '';
@@ -463,9 +1094,45 @@ const detectLangFromNavigator = (): Lang => {
 
 const App: React.FC = () => {
   const [keyword, setKeyword] = useState('');
+  const [nameTemplate, setNameTemplate] = useState(DEFAULT_NAME_TEMPLATE);
+  const [productName, setProductName] = useState('');
+  const [mapping, setMapping] = useState<{ fileName: string; entries: MappingEntry[] } | null>(null);
+  const [slugMode, setSlugMode] = useState<SlugMode>('keep');
+  const [slugOverrides, setSlugOverrides] = useState<SlugOverrides>({});
+  const [slugPolicy, setSlugPolicy] = useState<SlugPolicy>(DEFAULT_SLUG_POLICY);
+  const [indexStart, setIndexStart] = useState(1);
+  const [indexWidth, setIndexWidth] = useState(DEFAULT_INDEX_WIDTH);
+  const [issuedNames, setIssuedNames] = useState<IssuedName[]>([]);
   const [files, setFiles] = useState<InputImage[]>([]);
   const [processed, setProcessed] = useState<ProcessedImage[]>([]);
-  const [isSquare, setIsSquare] = useState(false);
+  const [aspectPresetId, setAspectPresetId] = useState<AspectPresetId>('original');
+  const [customAspectWidth, setCustomAspectWidth] = useState<number>(1);
+  const [customAspectHeight, setCustomAspectHeight] = useState<number>(1);
+  const [fitMode, setFitMode] = useState<FitMode>('crop');
+  const [padBackground, setPadBackground] = useState<PadBackground>('white');
+  const [byteBudgetKb, setByteBudgetKb] = useState<number>(DEFAULT_BUDGET_KB);
+  const [minSsim, setMinSsim] = useState<number>(DEFAULT_MIN_SSIM);
+  const [resizePresetId, setResizePresetId] = useState<ResizePresetId>('original');
+  const [customWidth, setCustomWidth] = useState<number>(2048);
+  const [customHeight, setCustomHeight] = useState<number>(2048);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('keep');
+  const [jpegEncoder, setJpegEncoder] = useState<JpegEncoderOptions>(DEFAULT_JPEG_ENCODER);
+  const [watermarkEnabled, setWatermarkEnabled] = useState(false);
+  const [watermark, setWatermark] = useState<WatermarkOptions>(DEFAULT_WATERMARK);
+  const [flatten, setFlatten] = useState<FlattenOptions>(DEFAULT_FLATTEN);
+  const [pngColors, setPngColors] = useState<number>(0);
+  const [pngDither, setPngDither] = useState(true);
+  const [animationFormat, setAnimationFormat] = useState<AnimationFormat>('webp');
+  const [generateVariants, setGenerateVariants] = useState(false);
+  const [variantWidthsText, setVariantWidthsText] = useState(DEFAULT_VARIANT_WIDTHS.join(', '));
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('strip');
+  const workerPoolRef = useRef<ImageWorkerPool | null>(null);
+  const analysisRequestsRef = useRef<Set<string>>(new Set()); // 已发起预分析的图片 id
+  const takenNamesRef = useRef<Map<string, string>>(new Map()); // 已占用的文件名 -> 图片 id（已导出的为空字符串）
+  const [encodableTypes, setEncodableTypes] = useState<Set<string>>(
+    () => new Set(['image/jpeg', 'image/png'])
+  );
   const [isProcessing, setIsProcessing] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [faqOpenId, setFaqOpenId] = useState<string | null>('q1');
@@ -482,11 +1149,18 @@ const App: React.FC = () => {
   const [aiProcessingItemId, setAiProcessingItemId] = useState<string | null>(null);
   const [aiCompletedItemIds, setAiCompletedItemIds] = useState<Set<string>>(new Set());
 
+  const getWorkerPool = useCallback(() => {
+    if (!workerPoolRef.current) {
+      workerPoolRef.current = new ImageWorkerPool(concurrency);
+    }
+    return workerPoolRef.current;
+  }, [concurrency]);
+
   const handleFiles = useCallback(
     (fileList: FileList | null) => {
       if (!fileList) return;
-      const incoming = Array.from(fileList).filter((f) =>
-        ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'].includes(f.type)
+      const incoming = Array.from(fileList).filter(
+        (f) => ['image/jpeg', 'image/png', 'image/webp', 'image/gif'].includes(f.type) || isHeicFile(f)
       );
       if (!incoming.length) {
         setMessage(messages[lang].messageInvalidType);
@@ -494,11 +1168,16 @@ const App: React.FC = () => {
       }
       const remainingSlots = MAX_FILES - files.length;
       const sliced = incoming.slice(0, remainingSlots);
-      const mapped: InputImage[] = sliced.map((file) => ({
-        id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
-        file,
-        previewUrl: URL.createObjectURL(file)
-      }));
+      const mapped: InputImage[] = sliced.map((file) =>
+        applyMapping(
+          {
+            id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+            file,
+            previewUrl: URL.createObjectURL(file)
+          },
+          mapping?.entries ?? []
+        )
+      );
       if (files.length + mapped.length >= MAX_FILES) {
         setMessage(messages[lang].messageLimit(MAX_FILES));
       } else {
@@ -506,8 +1185,43 @@ const App: React.FC = () => {
       }
       setFiles((prev) => [...prev, ...mapped]);
       setProcessed([]);
+
+      // 浏览器无法直接预览 HEIC：在 Worker 中解码生成 JPEG 缩略图
+      mapped
+        .filter((item) => isHeicFile(item.file))
+        .forEach((item) => {
+          getWorkerPool()
+            .run(item.file, 'image/heic', {
+              aspectRatio: null,
+              byteBudgetKb: 0,
+              minSsim: 0,
+              resize: { mode: 'fit', width: 256, height: 256 },
+              fit: 'crop',
+              focus: null,
+              padBackground: 'white',
+              flatten: DEFAULT_FLATTEN,
+              outputFormat: 'jpeg',
+              pngColors: 0,
+              pngDither: false,
+              jpegEncoder: DEFAULT_JPEG_ENCODER,
+              watermark: null,
+              variantWidths: [],
+              animationFormat: 'webp'
+            })
+            .then((result) => {
+              const previewUrl = URL.createObjectURL(result.blob);
+              setFiles((prev) =>
+                prev.map((f) => {
+                  if (f.id !== item.id) return f;
+                  URL.revokeObjectURL(f.previewUrl);
+                  return { ...f, previewUrl };
+                })
+              );
+            })
+            .catch((err) => console.warn('HEIC preview failed:', item.file.name, err));
+        });
     },
-    [files.length, lang]
+    [files.length, lang, getWorkerPool, mapping]
   );
 
   const onDrop: React.DragEventHandler<HTMLDivElement> = (e) => {
@@ -521,9 +1235,15 @@ const App: React.FC = () => {
     e.target.value = '';
   };
 
+  // 每张图片都有关键词（单张关键词，如来自对应表，或全局关键词）时才能批量处理
+  const allFilesHaveKeyword = useMemo(
+    () => files.every((f) => !!(f.customKeyword || keyword).trim()),
+    [files, keyword]
+  );
+
   const canProcess = useMemo(
-    () => !!keyword.trim() && files.length > 0 && !isProcessing,
-    [keyword, files.length, isProcessing]
+    () => allFilesHaveKeyword && files.length > 0 && !isProcessing,
+    [allFilesHaveKeyword, files.length, isProcessing]
   );
 
   const hasProcessedImages = useMemo(
@@ -537,101 +1257,270 @@ const App: React.FC = () => {
     });
   };
 
-  // 通用的单张图片处理函数
-  const processSingleImage = useCallback(
-    async (
-      input: InputImage,
-      keywordToUse: string,
-      forceSquareToUse: boolean,
-      index: number
-    ): Promise<ProcessedImage | null> => {
-      try {
-        const blob = input.file;
-        const imgBitmap = await createImageBitmap(blob).catch(async () => {
-          const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-            const image = new Image();
-            image.onload = () => resolve(image);
-            image.onerror = (err) => reject(err);
-            image.src = URL.createObjectURL(blob);
-          });
-          return img as unknown as ImageBitmap;
-        });
+  const resizeTarget = useMemo((): ResizeTarget | null => {
+    if (resizePresetId === 'custom-longest') {
+      return customWidth > 0 ? { mode: 'fit', width: customWidth, height: customWidth } : null;
+    }
+    if (resizePresetId === 'custom-exact') {
+      return customWidth > 0 && customHeight > 0
+        ? { mode: 'exact', width: customWidth, height: customHeight }
+        : null;
+    }
+    return resizePresets.find((p) => p.id === resizePresetId)?.target ?? null;
+  }, [resizePresetId, customWidth, customHeight]);
+
+  // 比例预设转换为宽高比（宽 / 高），null 表示保持原始比例
+  const resolveAspectRatio = useCallback(
+    (presetId: AspectPresetId): number | null => {
+      if (presetId === 'custom') {
+        return customAspectWidth > 0 && customAspectHeight > 0
+          ? customAspectWidth / customAspectHeight
+          : null;
+      }
+      const ratio = aspectPresets.find((p) => p.id === presetId)?.ratio;
+      return ratio ? ratio[0] / ratio[1] : null;
+    },
+    [customAspectWidth, customAspectHeight]
+  );
 
-        const width = (imgBitmap as any).width;
-        const height = (imgBitmap as any).height;
-
-        let targetWidth = width;
-        let targetHeight = height;
-        let sx = 0;
-        let sy = 0;
-        let sWidth = width;
-        let sHeight = height;
-
-        if (forceSquareToUse) {
-          const size = Math.min(width, height);
-          sWidth = size;
-          sHeight = size;
-          sx = (width - size) / 2;
-          sy = (height - size) / 2;
-          targetWidth = size;
-          targetHeight = size;
-        }
+  // 智能裁剪在预览图上的裁剪框（预览图按 contain 显示，换算为相对预览框的百分比）
+  const getCropPreviewStyle = useCallback(
+    (item: InputImage): React.CSSProperties | null => {
+      if ((item.fitMode ?? fitMode) !== 'smart' || !item.subject) return null;
+      const { box, width, height } = item.subject;
+      const rect = computeDrawRect(
+        width,
+        height,
+        resolveAspectRatio(item.aspectPresetId ?? aspectPresetId),
+        resizeTarget,
+        'smart',
+        box
+      );
+      if (rect.sWidth >= width && rect.sHeight >= height) return null;
+
+      const shownWidth = (width / Math.max(width, height)) * 100;
+      const shownHeight = (height / Math.max(width, height)) * 100;
+      return {
+        left: `${(100 - shownWidth) / 2 + (rect.sx / width) * shownWidth}%`,
+        top: `${(100 - shownHeight) / 2 + (rect.sy / height) * shownHeight}%`,
+        width: `${(rect.sWidth / width) * shownWidth}%`,
+        height: `${(rect.sHeight / height) * shownHeight}%`
+      };
+    },
+    [fitMode, aspectPresetId, resolveAspectRatio, resizeTarget]
+  );
 
-        const canvas = document.createElement('canvas');
-        canvas.width = targetWidth;
-        canvas.height = targetHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Canvas not supported');
-
-        ctx.drawImage(
-          imgBitmap as any,
-          sx,
-          sy,
-          sWidth,
-          sHeight,
-          0,
-          0,
-          targetWidth,
-          targetHeight
-        );
+  // 预估输出尺寸，用于文件名预览中的 {width}x{height}；原图尺寸未知时返回 null
+  const estimateOutputSize = useCallback(
+    (item: InputImage): { width: number; height: number } | null => {
+      const source = item.audit ?? item.fingerprint;
+      if (!source) return null;
+      const rect = computeDrawRect(
+        source.width,
+        source.height,
+        resolveAspectRatio(item.aspectPresetId ?? aspectPresetId),
+        resizeTarget,
+        item.fitMode ?? fitMode
+      );
+      return { width: rect.targetWidth, height: rect.targetHeight };
+    },
+    [fitMode, aspectPresetId, resolveAspectRatio, resizeTarget]
+  );
 
-        const originalType = input.file.type || 'image/jpeg';
-        const preferredType = ['image/jpeg', 'image/png', 'image/webp'].includes(originalType)
-          ? originalType
-          : 'image/jpeg';
-        const canAdjustQuality = preferredType === 'image/jpeg' || preferredType === 'image/webp';
-
-        const toBlobAsync = (type: string, quality?: number) =>
-          new Promise<Blob>((resolve, reject) => {
-            canvas.toBlob(
-              (b) => (b ? resolve(b) : reject(new Error('toBlob failed'))),
-              type,
-              quality
-            );
-          });
+  const unknownNameTokens = useMemo(() => findUnknownTokens(nameTemplate), [nameTemplate]);
 
-        let quality = canAdjustQuality ? 0.78 : undefined;
-        let outputBlob: Blob = await toBlobAsync(preferredType, quality);
+  // 文件名中会出现的中文片段：模板文字、关键词、SKU，模板使用 {original} 时还包括原文件名
+  const slugPreview = useMemo(() => {
+    const sources = [nameTemplate, keyword];
+    files.forEach((f) => {
+      sources.push(f.customKeyword ?? '', f.sku ?? '');
+      if (/\{original\}/i.test(nameTemplate)) sources.push(f.file.name);
+    });
+    const text = sources.join(' ');
+    return slugSegments(slugPolicy.removeStopWords ? stripChineseStopWords(text) : text, slugMode, slugOverrides);
+  }, [nameTemplate, keyword, files, slugMode, slugOverrides, slugPolicy.removeStopWords]);
 
-        const targetBytes = 200 * 1024;
-        if (canAdjustQuality && outputBlob.size > targetBytes) {
-          quality = 0.6;
-          outputBlob = await toBlobAsync(preferredType, quality);
-        }
+  const issuedNameSet = useMemo(() => new Set(issuedNames.map((entry) => entry.name)), [issuedNames]);
 
-        const indexStr = String(index + 1).padStart(2, '0');
-        const originalSizeKb = +(input.file.size / 1024).toFixed(1);
+  // 当前关键词接续上次导出的编号
+  const nextIndex = useMemo(
+    () => nextIssuedIndex(issuedNames, sanitizeKeyword(keyword) || 'product'),
+    [issuedNames, keyword]
+  );
+
+  // 修改单个片段的转写，留空则恢复自动转写；保存在本地，下次打开仍然生效
+  const updateSlugOverride = useCallback((source: string, value: string) => {
+    setSlugOverrides((prev) => {
+      const next = { ...prev };
+      if (value.trim()) {
+        next[source] = value;
+      } else {
+        delete next[source];
+      }
+      localStorage.setItem('slugOverrides', JSON.stringify(next));
+      return next;
+    });
+  }, []);
 
-        let ext = mimeToExt[preferredType] || 'jpg';
-        let finalBlob = outputBlob;
+  // 合并全局设置与单张图片设置
+  const resolveProcessOptions = useCallback(
+    (input: InputImage, index: number): ProcessOptions => ({
+      // 使用单张图片的自定义关键词和设置，如果没有则使用全局设置
+      keyword: input.customKeyword || keyword,
+      nameTemplate,
+      productName,
+      indexWidth,
+      slugMode,
+      slugOverrides,
+      slugPolicy,
+      aspectRatio: resolveAspectRatio(input.aspectPresetId ?? aspectPresetId),
+      byteBudgetKb: input.byteBudgetKb ?? byteBudgetKb,
+      minSsim,
+      resize: resizeTarget,
+      fit: input.fitMode ?? fitMode,
+      focus: input.subject?.box ?? null,
+      padBackground,
+      flatten,
+      outputFormat,
+      pngColors,
+      pngDither,
+      jpegEncoder,
+      watermark: watermarkEnabled && input.watermark !== false ? watermark : null,
+      variantWidths: generateVariants ? parseVariantWidths(variantWidthsText) : [],
+      animationFormat,
+      metadataPolicy,
+      index: indexStart + index
+    }),
+    [
+      keyword,
+      nameTemplate,
+      productName,
+      indexWidth,
+      indexStart,
+      slugMode,
+      slugOverrides,
+      slugPolicy,
+      aspectPresetId,
+      resolveAspectRatio,
+      fitMode,
+      padBackground,
+      flatten,
+      byteBudgetKb,
+      minSsim,
+      resizeTarget,
+      outputFormat,
+      pngColors,
+      pngDither,
+      jpegEncoder,
+      watermarkEnabled,
+      watermark,
+      generateVariants,
+      variantWidthsText,
+      animationFormat,
+      metadataPolicy
+    ]
+  );
 
-        if (outputBlob.size > input.file.size) {
+  // 更新单张图片的处理进度
+  const updateProgress = useCallback((imageId: string, progress: number) => {
+    setFiles((prev) =>
+      prev.map((f) =>
+        f.id === imageId && f.isProcessing ? { ...f, processingProgress: progress } : f
+      )
+    );
+  }, []);
+
+  // 通用的单张图片处理函数（在 Worker 池中执行）
+  const processSingleImage = useCallback(
+    async (
+      input: InputImage,
+      options: ProcessOptions,
+      onProgress?: ProgressFn
+    ): Promise<PendingImage | null> => {
+      try {
+        const originalType = resolveSourceType(input.file);
+        const {
+          keyword: keywordToUse,
+          index,
+          nameTemplate: template,
+          productName,
+          indexWidth: digits,
+          slugMode: mode,
+          slugOverrides: overrides,
+          slugPolicy: namePolicy,
+          metadataPolicy: policy,
+          ...pipelineOptions
+        } = options;
+        const result = await getWorkerPool().run(
+          input.file,
+          originalType,
+          pipelineOptions,
+          onProgress
+        );
+        const { outputType } = result;
+
+        const originalSizeKb = +(input.file.size / 1024).toFixed(1);
+
+        let ext = mimeToExt[outputType] || 'jpg';
+        let finalBlob = result.blob;
+        let finalType = outputType;
+        let quality = result.quality;
+        let ssim = result.ssim;
+        let finalWidth = result.width;
+        let finalHeight = result.height;
+
+        // 保持原格式（动图输出为原格式）时，若压缩后反而更大则退回原图；加了水印、改变了尺寸、
+        // 指定了输出格式、原格式无法编码（如 HEIC）或源图为广色域时始终使用转换结果
+        if (canPassThrough(result, { size: input.file.size, type: originalType }, pipelineOptions)) {
           finalBlob = input.file;
+          finalType = originalType;
           ext = mimeToExt[originalType] || ext;
+          quality = undefined;
+          ssim = undefined;
+          finalWidth = result.sourceWidth;
+          finalHeight = result.sourceHeight;
         }
 
+        // 按策略处理 EXIF：重新编码的输出写入允许保留的字段，直出原图则剥离隐私字段
+        const metadata = await applyMetadataPolicy(finalBlob, input.file, policy, finalBlob === input.file);
+        finalBlob = metadata.blob;
+
         const cleanKeyword = sanitizeKeyword(keywordToUse) || 'product';
-        const seoName = `${cleanKeyword}-${indexStr}.${ext}`;
+        const tokens = {
+          keyword: keywordToUse,
+          index,
+          indexWidth: digits,
+          color: input.classification?.color,
+          material: input.classification?.material,
+          sku: input.sku,
+          width: finalWidth,
+          height: finalHeight,
+          original: input.file.name,
+          date: new Date()
+        };
+        const renderOptions = { convert: (text: string) => transliterate(text, mode, overrides), policy: namePolicy };
+        const indexed = hasIndexToken(template);
+        // 与已导出或本批次其他图片重名时顺延序号；模板不含序号时追加 -2、-3 ...
+        const renderName = (n: number) => {
+          if (indexed) return `${renderNameTemplate(template, { ...tokens, index: index + n }, renderOptions)}.${ext}`;
+          const baseName = renderNameTemplate(template, tokens, renderOptions);
+          return `${n ? `${baseName}-${n + 1}` : baseName}.${ext}`;
+        };
+        const altText =
+          input.altText?.trim() ||
+          buildAltText({
+            keyword: keywordToUse,
+            productName,
+            color: input.classification?.color,
+            material: input.classification?.material,
+            style: input.classification?.style
+          });
+        const variants = await Promise.all(
+          result.variants.map(async (variant) => ({
+            ...variant,
+            blob: (await applyMetadataPolicy(variant.blob, input.file, policy, false)).blob
+          }))
+        );
         const finalSizeKb = +(finalBlob.size / 1024).toFixed(1);
         const savedPercent =
           originalSizeKb > 0
@@ -642,23 +1531,57 @@ const App: React.FC = () => {
         return {
           id: input.id,
           originalName: input.file.name,
-          seoName,
+          renderName,
+          baseIndex: index,
+          indexed,
+          keyword: cleanKeyword,
+          altText,
+          handle: input.handle,
           blob: finalBlob,
           sizeKb: finalSizeKb,
           originalSizeKb,
           savedPercent,
-          downloadUrl
+          downloadUrl,
+          quality,
+          ssim,
+          colorProfile: result.colorProfile,
+          unsupportedProfile: result.unsupportedProfile,
+          alphaDiscarded: result.alphaDiscarded,
+          outputType: finalType,
+          frameCount: result.frameCount,
+          formatFallback: outputType !== result.requestedType,
+          jpegFallback: finalBlob !== input.file && result.jpegFallback,
+          exifDropped: metadata.exifDropped,
+          width: finalWidth,
+          height: finalHeight,
+          variants,
+          variantExt: mimeToExt[outputType] || 'jpg'
         };
       } catch (err) {
         console.error(err);
         return null;
       }
     },
-    []
+    [getWorkerPool]
   );
 
+  // 为处理完成的图片占用文件名，批量处理时按列表顺序依次调用
+  const assignName = useCallback((pending: PendingImage): ProcessedImage => {
+    const { renderName, baseIndex, indexed, variants, variantExt, ...image } = pending;
+    const { name: seoName, attempt } = claimName(takenNamesRef.current, image.id, renderName);
+    return {
+      ...image,
+      seoName,
+      index: indexed ? baseIndex + attempt : baseIndex,
+      variants: variants.map((variant) => ({
+        ...variant,
+        name: variantName(seoName, variant.width, variantExt)
+      }))
+    };
+  }, []);
+
   const processImages = useCallback(async () => {
-    if (!files.length || !keyword.trim()) return;
+    if (!files.length || !allFilesHaveKeyword) return;
     setIsProcessing(true);
     setMessage(messages[lang].messageProcessing);
     revokeDownloadUrls(processed);
@@ -668,47 +1591,36 @@ const App: React.FC = () => {
       prev.map((f) => ({ ...f, isProcessing: true, processingProgress: 0 }))
     );
 
-    const results: ProcessedImage[] = [];
-
-    for (let i = 0; i < files.length; i += 1) {
-      const input = files[i];
-      // 使用单张图片的自定义关键词和设置，如果没有则使用全局设置
-      const keywordToUse = input.customKeyword || keyword;
-      const forceSquareToUse = input.forceSquare !== undefined ? input.forceSquare : isSquare;
-      
-      if (!keywordToUse.trim()) {
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === input.id ? { ...f, isProcessing: false, processingProgress: undefined } : f
-          )
-        );
-        continue;
-      }
+    // 所有图片同时提交到 Worker 池，由池控制并发数
+    const settled = await Promise.all(
+      files.map(async (input, i) => {
+        const options = resolveProcessOptions(input, i);
 
-      // 更新进度
-      const progress = Math.floor(((i + 1) / files.length) * 90);
-      setFiles((prev) =>
-        prev.map((f) =>
-          f.id === input.id ? { ...f, processingProgress: progress } : f
-        )
-      );
+        if (!options.keyword.trim()) {
+          setFiles((prev) =>
+            prev.map((f) =>
+              f.id === input.id ? { ...f, isProcessing: false, processingProgress: undefined } : f
+            )
+          );
+          return null;
+        }
 
-      const result = await processSingleImage(input, keywordToUse, forceSquareToUse, i);
-      if (result) {
-        results.push(result);
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === input.id ? { ...f, isProcessing: false, processingProgress: 100 } : f
-          )
+        const result = await processSingleImage(input, options, (progress) =>
+          updateProgress(input.id, progress)
         );
-      } else {
         setFiles((prev) =>
           prev.map((f) =>
-            f.id === input.id ? { ...f, isProcessing: false, processingProgress: undefined } : f
+            f.id === input.id
+              ? { ...f, isProcessing: false, processingProgress: result ? 100 : undefined }
+              : f
           )
         );
-      }
-    }
+        return result;
+      })
+    );
+    // 先释放本批图片之前占用的文件名，再按列表顺序分配
+    files.forEach((f) => releaseNames(takenNamesRef.current, f.id));
+    const results = settled.filter((r): r is PendingImage => r !== null).map(assignName);
 
     setProcessed(results);
     setIsProcessing(false);
@@ -728,7 +1640,7 @@ const App: React.FC = () => {
         return newTotal;
       });
     }
-  }, [files, keyword, isSquare, lang, processSingleImage]);
+  }, [files, allFilesHaveKeyword, lang, resolveProcessOptions, processSingleImage, assignName, updateProgress]);
 
   // 单张图片压缩
   const compressSingleImage = useCallback(
@@ -736,15 +1648,14 @@ const App: React.FC = () => {
       const image = files.find((f) => f.id === imageId);
       if (!image) return;
 
-      const keywordToUse = image.customKeyword || keyword;
-      const forceSquareToUse = image.forceSquare !== undefined ? image.forceSquare : isSquare;
+      const index = files.findIndex((f) => f.id === imageId);
+      const options = resolveProcessOptions(image, index);
 
-      if (!keywordToUse.trim()) {
+      if (!options.keyword.trim()) {
         setMessage(lang === 'zh' ? '请先输入关键词' : 'Please enter a keyword first');
         return;
       }
 
-      const index = files.findIndex((f) => f.id === imageId);
       const existingProcessed = processed.find((p) => p.id === imageId);
       if (existingProcessed) {
         URL.revokeObjectURL(existingProcessed.downloadUrl);
@@ -757,22 +1668,10 @@ const App: React.FC = () => {
         )
       );
 
-      // 模拟进度更新
-      const progressInterval = setInterval(() => {
-        setFiles((prev) =>
-          prev.map((f) => {
-            if (f.id === imageId && f.isProcessing && f.processingProgress !== undefined) {
-              const newProgress = Math.min((f.processingProgress || 0) + 10, 90);
-              return { ...f, processingProgress: newProgress };
-            }
-            return f;
-          })
-        );
-      }, 200);
-
-      const result = await processSingleImage(image, keywordToUse, forceSquareToUse, index);
-      
-      clearInterval(progressInterval);
+      const pending = await processSingleImage(image, options, (progress) =>
+        updateProgress(imageId, progress)
+      );
+      const result = pending && assignName(pending);
       
       if (result) {
         setFiles((prev) =>
@@ -806,12 +1705,54 @@ const App: React.FC = () => {
         setMessage(lang === 'zh' ? '处理失败，请重试' : 'Processing failed, please retry');
       }
     },
-    [files, keyword, isSquare, processed, processSingleImage, lang]
+    [files, processed, resolveProcessOptions, processSingleImage, assignName, updateProgress, lang]
   );
 
+  // 修改单张图片的 alt 文本；已处理的结果同步更新，清空时恢复自动生成的文本
+  const updateAltText = useCallback((imageId: string, value: string, fallback: string) => {
+    setFiles((prev) =>
+      prev.map((f) => (f.id === imageId ? { ...f, altText: value || undefined } : f))
+    );
+    setProcessed((prev) =>
+      prev.map((p) => (p.id === imageId ? { ...p, altText: value.trim() || fallback } : p))
+    );
+  }, []);
+
+  // 导入对应表并应用到当前列表中的图片
+  const importMapping = useCallback(
+    async (file: File) => {
+      let entries: MappingEntry[];
+      try {
+        entries = await readMappingFile(file);
+      } catch (error) {
+        setMessage(messages[lang].mappingReadFailed(error instanceof Error ? error.message : String(error)));
+        return;
+      }
+      if (!entries.length) {
+        setMessage(messages[lang].mappingInvalid);
+        return;
+      }
+      setMapping({ fileName: file.name, entries });
+      setFiles((prev) => prev.map((f) => applyMapping(f, entries)));
+      setMessage(null);
+    },
+    [lang]
+  );
+
+  // 对应表的匹配情况：未匹配的图片需要手动填写
+  const mappingReport = useMemo(() => {
+    if (!mapping) return null;
+    const unmatched = files.filter((f) => !findMapping(f.file.name, mapping.entries));
+    return {
+      matched: files.length - unmatched.length,
+      unmatched: unmatched.map((f) => f.file.name)
+    };
+  }, [mapping, files]);
+
   // 单张图片删除
   const deleteSingleImage = useCallback(
     (imageId: string) => {
+      releaseNames(takenNamesRef.current, imageId);
       setFiles((prev) => {
         const image = prev.find((f) => f.id === imageId);
         if (image) {
@@ -836,13 +1777,102 @@ const App: React.FC = () => {
     []
   );
 
+  // 重复图片：保留组内最佳（分辨率最高）或最小的一张，删除其余
+  const keepDuplicate = useCallback(
+    (group: DuplicateGroup, strategy: 'best' | 'smallest') => {
+      const pixels = (f: InputImage) => (f.fingerprint ? f.fingerprint.width * f.fingerprint.height : 0);
+      const ranked = files
+        .filter((f) => group.ids.includes(f.id))
+        .sort((a, b) =>
+          strategy === 'best'
+            ? pixels(b) - pixels(a) || b.file.size - a.file.size
+            : a.file.size - b.file.size
+        );
+      const removed = ranked.slice(1);
+      removed.forEach((f) => deleteSingleImage(f.id));
+      setMessage(messages[lang].duplicatesRemoved(removed.length));
+    },
+    [files, deleteSingleImage, lang]
+  );
+
+  // 登记导出的文件名，之后处理的图片会自动避开这些名字
+  const registerExported = useCallback((items: ProcessedImage[]) => {
+    const issuedAt = Date.now();
+    const entries: IssuedName[] = items.map((item) => ({
+      name: item.seoName,
+      keyword: item.keyword,
+      index: item.index,
+      issuedAt
+    }));
+    entries.forEach((entry) => takenNamesRef.current.set(entry.name, ''));
+    setIssuedNames((prev) => [
+      ...prev.filter((entry) => !entries.some((e) => e.name === entry.name)),
+      ...entries
+    ]);
+    recordIssuedNames(entries).catch((err) => console.warn('Failed to record exported names:', err));
+  }, []);
+
+  // 清空导出记录（不影响本次已处理图片占用的文件名）
+  const handleClearIssuedNames = useCallback(() => {
+    takenNamesRef.current.forEach((holder, name) => {
+      if (!holder) takenNamesRef.current.delete(name);
+    });
+    setIssuedNames([]);
+    clearIssuedNames().catch((err) => console.warn('Failed to clear exported names:', err));
+  }, []);
 
   const downloadZip = useCallback(async () => {
     if (!processed.length) return;
     const zip = new JSZip();
     processed.forEach((item) => {
       zip.file(item.seoName, item.blob);
+      item.variants.forEach((variant) => {
+        zip.file(`responsive/${variant.name}`, variant.blob);
+      });
     });
+    zip.file(
+      'manifest.csv',
+      buildManifestCsv(
+        processed.map((item) => ({
+          filename: item.seoName,
+          originalName: item.originalName,
+          keyword: item.keyword,
+          altText: item.altText,
+          handle: item.handle ?? '',
+          width: item.width,
+          height: item.height,
+          sizeKb: item.sizeKb
+        }))
+      )
+    );
+
+    // 按商品关键词分组输出 <picture> 代码片段
+    const withVariants = processed.filter((item) => item.variants.length > 0);
+    if (withVariants.length) {
+      const groups = new Map<string, ProcessedImage[]>();
+      withVariants.forEach((item) => {
+        groups.set(item.keyword, [...(groups.get(item.keyword) || []), item]);
+      });
+      const snippets = Array.from(groups.entries()).map(([product, items]) =>
+        [
+          `<!-- ${product} -->`,
+          ...items.map((item) =>
+            buildPictureSnippet(
+              {
+                seoName: item.seoName,
+                width: item.width,
+                height: item.height,
+                outputType: item.outputType,
+                variants: item.variants,
+                alt: item.altText
+              },
+              'responsive/'
+            )
+          )
+        ].join('\n')
+      );
+      zip.file('responsive/snippets.html', snippets.join('\n\n') + '\n');
+    }
     const blob = await zip.generateAsync({ type: 'blob' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -850,13 +1880,15 @@ const App: React.FC = () => {
     a.download = `ecommerce-image-seo-${Date.now()}.zip`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [processed]);
+    registerExported(processed);
+  }, [processed, registerExported]);
 
   // 清空所有图片和结果
   const handleClear = useCallback(() => {
     // 清理所有预览URL
     files.forEach((file) => {
       URL.revokeObjectURL(file.previewUrl);
+      releaseNames(takenNamesRef.current, file.id);
     });
     
     // 清理所有下载URL
@@ -879,11 +1911,32 @@ const App: React.FC = () => {
       a.href = item.downloadUrl;
       a.download = item.seoName;
       a.click();
+      registerExported([item]);
     },
-    []
+    [registerExported]
   );
 
 
+  useEffect(() => {
+    // 从 IndexedDB 读取以前导出的文件名
+    loadIssuedNames().then((entries) => {
+      entries.forEach((entry) => {
+        if (!takenNamesRef.current.has(entry.name)) takenNamesRef.current.set(entry.name, '');
+      });
+      setIssuedNames(entries);
+    });
+  }, []);
+
+  useEffect(() => {
+    // 从 localStorage 读取手动修改过的转写
+    try {
+      const saved = JSON.parse(localStorage.getItem('slugOverrides') || '{}');
+      if (saved && typeof saved === 'object') setSlugOverrides(saved);
+    } catch {
+      // 忽略损坏的数据
+    }
+  }, []);
+
   useEffect(() => {
     // 从 localStorage 读取总处理图片数量
     const savedCount = localStorage.getItem('totalProcessedCount');
@@ -934,6 +1987,61 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // 同步并发数到 Worker 池
+  useEffect(() => {
+    workerPoolRef.current?.setSize(concurrency);
+  }, [concurrency]);
+
+  // 卸载时终止所有 Worker
+  useEffect(() => {
+    return () => {
+      workerPoolRef.current?.terminate();
+      workerPoolRef.current = null;
+    };
+  }, []);
+
+  // 预分析：导入后在 Worker 中解码原图，分析主体区域（智能裁剪框）、计算感知哈希指纹（重复检测）
+  // 并检查质量，结果与尺寸预设无关
+  useEffect(() => {
+    files.forEach((item) => {
+      if (item.audit || analysisRequestsRef.current.has(item.id)) return;
+      analysisRequestsRef.current.add(item.id);
+
+      getWorkerPool()
+        .analyze(item.file)
+        .then(({ subject, fingerprint, audit, animated }) => {
+          setFiles((prev) =>
+            prev.map((f) => (f.id === item.id ? { ...f, subject, fingerprint, audit, animated } : f))
+          );
+        })
+        .catch((err) => {
+          // 无法解码时跳过检查，智能裁剪在处理时由流水线检测主体
+          console.warn('Image analysis failed:', item.file.name, err);
+        });
+    });
+  }, [files, getWorkerPool]);
+
+  // 近似重复的图片分组：图片 id → 所在组及组序号（从 1 开始）
+  const duplicateGroups = useMemo(() => {
+    const groups = findDuplicateGroups(
+      files
+        .filter((f) => f.fingerprint)
+        .map((f) => ({ id: f.id, hash: f.fingerprint!.hash }))
+    );
+    const byId = new Map<string, { group: DuplicateGroup; number: number }>();
+    groups.forEach((group, i) => group.ids.forEach((id) => byId.set(id, { group, number: i + 1 })));
+    return byId;
+  }, [files]);
+
+  // 检测浏览器可编码的输出格式
+  useEffect(() => {
+    detectEncodableTypes()
+      .then(setEncodableTypes)
+      .catch(() => {
+        // 检测失败时保持默认的 JPEG / PNG
+      });
+  }, []);
+
   // 清理FAQ点击定时器
   useEffect(() => {
     return () => {
@@ -1029,12 +2137,27 @@ const App: React.FC = () => {
       setMessage(null);
 
       try {
-        const detectedKeyword = await extractKeywords(image.file);
-        
-        // 设置该图片的自定义关键词
+        const classification = await analyzeImage(image.file);
+        const detectedKeyword = await extractKeywords(image.file, classification);
+        // 配置了 OpenAI 时看图生成 alt 文本，否则处理时按关键词在本地生成；
+        // 已填写（手动输入或来自对应表）的 alt 文本不会被覆盖，需要时使用「重新生成」
+        let altText: string | null = null;
+        if (!image.altText?.trim()) {
+          altText = await generateAltText(image.file, {
+            keyword: detectedKeyword,
+            productName: productName.trim() || undefined
+          }).catch((error) => {
+            setMessage(t.altTextAiFailed(error instanceof Error ? error.message : String(error)));
+            return null;
+          });
+        }
+
+        // 设置该图片的自定义关键词，颜色和材质用于文件名模板
         setFiles((prev) =>
           prev.map((f) =>
-            f.id === imageId ? { ...f, customKeyword: detectedKeyword } : f
+            f.id === imageId
+              ? { ...f, customKeyword: detectedKeyword, classification, ...(altText ? { altText } : {}) }
+              : f
           )
         );
 
@@ -1046,7 +2169,31 @@ const App: React.FC = () => {
         setAiProcessingItemId(null);
       }
     },
-    [files, t]
+    [files, productName, t]
+  );
+
+  // 重新生成 alt 文本：配置了 OpenAI 时看图生成并覆盖已有文本，否则恢复为本地生成的文本
+  const regenerateAltText = useCallback(
+    async (imageId: string, fallback: string) => {
+      const image = files.find((f) => f.id === imageId);
+      if (!image) return;
+
+      setAiProcessingItemId(imageId);
+      setMessage(null);
+
+      try {
+        const altText = await generateAltText(image.file, {
+          keyword: image.customKeyword || keyword,
+          productName: productName.trim() || undefined
+        });
+        updateAltText(imageId, altText ?? '', fallback);
+      } catch (error) {
+        setMessage(t.altTextAiFailed(error instanceof Error ? error.message : String(error)));
+      } finally {
+        setAiProcessingItemId(null);
+      }
+    },
+    [files, keyword, productName, t, updateAltText]
   );
 
   return (
@@ -1118,7 +2265,7 @@ const App: React.FC = () => {
                 <input
                   id="file-input"
                   type="file"
-                  accept="image/jpeg,image/png,image/webp,image/heic,image/heif"
+                  accept="image/jpeg,image/png,image/webp,image/gif,image/heic,image/heif,.heic,.heif"
                   multiple
                   onChange={onBrowseChange}
                   style={{ display: 'none' }}
@@ -1146,19 +2293,554 @@ const App: React.FC = () => {
                   onChange={(e) => setKeyword(e.target.value)}
                 />
                 <span className="global-keyword-hint">{t.keywordHint}</span>
+                <div className="mapping-import">
+                  <label className="inline-action" title={t.mappingHint}>
+                    {t.mappingImport}
+                    <input
+                      type="file"
+                      accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importMapping(file);
+                        e.target.value = '';
+                      }}
+                      style={{ display: 'none' }}
+                    />
+                  </label>
+                  {mapping && mappingReport && (
+                    <>
+                      <span className="global-keyword-hint">
+                        {t.mappingSummary(mapping.fileName, mappingReport.matched, files.length)}
+                      </span>
+                      <button type="button" className="inline-action" onClick={() => setMapping(null)}>
+                        {t.mappingRemove}
+                      </button>
+                    </>
+                  )}
+                </div>
+                {mappingReport && mappingReport.unmatched.length > 0 && (
+                  <span className="file-warning">{t.mappingUnmatched(mappingReport.unmatched)}</span>
+                )}
               </div>
             </div>
           </div>
 
+          <div className="control-row">
+            <label className="field field-compact">
+              <span className="field-label">{t.productNameLabel}</span>
+              <input
+                type="text"
+                value={productName}
+                placeholder={t.productNamePlaceholder}
+                onChange={(e) => setProductName(e.target.value)}
+              />
+              <span className="field-hint">{t.productNameHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.nameTemplateLabel}</span>
+              <input
+                type="text"
+                value={nameTemplate}
+                placeholder={DEFAULT_NAME_TEMPLATE}
+                onChange={(e) => setNameTemplate(e.target.value)}
+              />
+              {unknownNameTokens.length > 0 && (
+                <span className="file-warning">{t.nameTemplateUnknown(unknownNameTokens)}</span>
+              )}
+              <span className="field-hint" title={NAME_TOKENS.map((token) => `{${token}}`).join(' ')}>
+                {t.nameTemplateHint}
+              </span>
+            </label>
+            <div className="field field-compact">
+              <span className="field-label">{t.slugModeLabel}</span>
+              <select value={slugMode} onChange={(e) => setSlugMode(e.target.value as SlugMode)}>
+                {slugModes.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label[lang]}
+                  </option>
+                ))}
+              </select>
+              {slugPreview.length > 0 && (
+                <div className="slug-segments">
+                  <span className="field-hint">{t.slugSegmentsTitle}</span>
+                  {slugPreview.map((segment) => (
+                    <div key={segment.source} className="slug-segment">
+                      <span className="slug-segment-source">{segment.source}</span>
+                      <input
+                        type="text"
+                        value={segment.overridden ? slugOverrides[segment.source] : ''}
+                        placeholder={segment.value}
+                        onChange={(e) => updateSlugOverride(segment.source, e.target.value)}
+                      />
+                      {segment.overridden && (
+                        <button
+                          type="button"
+                          className="slug-segment-reset"
+                          onClick={() => updateSlugOverride(segment.source, '')}
+                        >
+                          {t.slugSegmentReset}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <span className="field-hint">{t.slugModeHint}</span>
+            </div>
+            <div className="field field-compact">
+              <span className="field-label">{t.slugPolicyLabel}</span>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={slugPolicy.removeStopWords}
+                  onChange={(e) => setSlugPolicy((prev) => ({ ...prev, removeStopWords: e.target.checked }))}
+                />
+                <span>{t.slugStopWordsLabel}</span>
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={slugPolicy.dedupe}
+                  onChange={(e) => setSlugPolicy((prev) => ({ ...prev, dedupe: e.target.checked }))}
+                />
+                <span>{t.slugDedupeLabel}</span>
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={slugPolicy.maxLength}
+                title={t.slugMaxLengthLabel}
+                onChange={(e) =>
+                  setSlugPolicy((prev) => ({ ...prev, maxLength: Math.max(0, Math.round(Number(e.target.value) || 0)) }))
+                }
+              />
+              <span className="field-hint">{t.slugMaxLengthLabel}</span>
+              <span className="field-hint">{t.slugPolicyHint}</span>
+            </div>
+            <div className="field field-compact">
+              <span className="field-label">{t.numberingLabel}</span>
+              <div className="field-input-group">
+                <input
+                  type="number"
+                  min={0}
+                  value={indexStart}
+                  title={t.indexStartLabel}
+                  onChange={(e) => setIndexStart(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={6}
+                  value={indexWidth}
+                  title={t.indexWidthLabel}
+                  onChange={(e) =>
+                    setIndexWidth(Math.min(6, Math.max(1, Math.round(Number(e.target.value) || DEFAULT_INDEX_WIDTH))))
+                  }
+                />
+              </div>
+              <span className="field-hint">
+                {t.indexStartLabel} / {t.indexWidthLabel}
+              </span>
+              {nextIndex > 1 && nextIndex !== indexStart && (
+                <button type="button" className="inline-action" onClick={() => setIndexStart(nextIndex)}>
+                  {t.continueNumbering(nextIndex)}
+                </button>
+              )}
+              {issuedNames.length > 0 && (
+                <span className="field-hint">
+                  {t.issuedNamesCount(issuedNames.length)}{' '}
+                  <button type="button" className="inline-action" onClick={handleClearIssuedNames}>
+                    {t.clearIssuedNames}
+                  </button>
+                </span>
+              )}
+              <span className="field-hint">{t.numberingHint}</span>
+            </div>
+            <label className="field field-compact">
+              <span className="field-label">{t.aspectLabel}</span>
+              <select
+                value={aspectPresetId}
+                onChange={(e) => setAspectPresetId(e.target.value as AspectPresetId)}
+              >
+                {aspectPresets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label[lang]}
+                  </option>
+                ))}
+              </select>
+              {aspectPresetId === 'custom' && (
+                <div className="field-input-group">
+                  <input
+                    type="number"
+                    min={1}
+                    value={customAspectWidth}
+                    onChange={(e) => setCustomAspectWidth(Math.max(0, Number(e.target.value) || 0))}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={customAspectHeight}
+                    onChange={(e) => setCustomAspectHeight(Math.max(0, Number(e.target.value) || 0))}
+                  />
+                </div>
+              )}
+              <span className="field-hint">{t.aspectHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.fitLabel}</span>
+              <select value={fitMode} onChange={(e) => setFitMode(e.target.value as FitMode)}>
+                {fitModes.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label[lang]}
+                  </option>
+                ))}
+              </select>
+              {fitMode === 'pad' && (
+                <select
+                  value={padBackground}
+                  title={t.padBackgroundLabel}
+                  onChange={(e) => setPadBackground(e.target.value as PadBackground)}
+                >
+                  {padBackgrounds.map((background) => (
+                    <option key={background.value} value={background.value}>
+                      {background.label[lang]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <span className="field-hint">{t.fitHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.resizeLabel}</span>
+              <select
+                value={resizePresetId}
+                onChange={(e) => setResizePresetId(e.target.value as ResizePresetId)}
+              >
+                {platforms[lang].map((group) => {
+                  const groupPresets = resizePresets.filter((p) => p.platform === group.value);
+                  if (!groupPresets.length) return null;
+                  return (
+                    <optgroup key={group.value} label={group.label}>
+                      {groupPresets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                          {preset.label[lang]}
+                        </option>
+                      ))}
+                    </optgroup>
+                  );
+                })}
+              </select>
+              {(resizePresetId === 'custom-longest' || resizePresetId === 'custom-exact') && (
+                <div className="field-input-group">
+                  <input
+                    type="number"
+                    min={1}
+                    value={customWidth}
+                    onChange={(e) => setCustomWidth(Math.max(0, Number(e.target.value) || 0))}
+                  />
+                  {resizePresetId === 'custom-exact' && (
+                    <input
+                      type="number"
+                      min={1}
+                      value={customHeight}
+                      onChange={(e) => setCustomHeight(Math.max(0, Number(e.target.value) || 0))}
+                    />
+                  )}
+                </div>
+              )}
+              <span className="field-hint">{t.resizeHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.formatLabel}</span>
+              <select
+                value={outputFormat}
+                onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+              >
+                {outputFormats.map((format) => {
+                  const unsupported =
+                    format.value !== 'keep' && !encodableTypes.has(formatToMime[format.value]);
+                  return (
+                    <option key={format.value} value={format.value} disabled={unsupported}>
+                      {format.label[lang]}
+                      {unsupported ? t.formatUnsupported : ''}
+                    </option>
+                  );
+                })}
+              </select>
+              <span className="field-hint">{t.formatHint}</span>
+            </label>
+            <div className="field field-compact">
+              <span className="field-label">{t.jpegEncoderLabel}</span>
+              <select
+                value={jpegEncoder.encoder}
+                onChange={(e) =>
+                  setJpegEncoder((prev) => ({ ...prev, encoder: e.target.value as JpegEncoderId }))
+                }
+              >
+                {jpegEncoders.map((encoder) => (
+                  <option key={encoder.value} value={encoder.value}>
+                    {encoder.label[lang]}
+                  </option>
+                ))}
+              </select>
+              {jpegEncoder.encoder !== 'browser' && (
+                <>
+                  <select
+                    value={jpegEncoder.subsampling}
+                    onChange={(e) =>
+                      setJpegEncoder((prev) => ({
+                        ...prev,
+                        subsampling: e.target.value as ChromaSubsampling
+                      }))
+                    }
+                  >
+                    {chromaSubsamplings.map((subsampling) => (
+                      <option key={subsampling.value} value={subsampling.value}>
+                        {subsampling.label[lang]}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="checkbox">
+                    <input
+                      type="checkbox"
+                      checked={jpegEncoder.progressive}
+                      onChange={(e) =>
+                        setJpegEncoder((prev) => ({ ...prev, progressive: e.target.checked }))
+                      }
+                    />
+                    <span>{t.jpegProgressiveLabel}</span>
+                  </label>
+                </>
+              )}
+              <span className="field-hint">{t.jpegEncoderHint}</span>
+            </div>
+            <div className="field field-compact">
+              <span className="field-label">{t.pngColorsLabel}</span>
+              <select value={pngColors} onChange={(e) => setPngColors(Number(e.target.value))}>
+                {pngColorOptions.map((colors) => (
+                  <option key={colors} value={colors}>
+                    {t.pngColorsOption(colors)}
+                  </option>
+                ))}
+              </select>
+              {pngColors > 0 && (
+                <label className="checkbox">
+                  <input
+                    type="checkbox"
+                    checked={pngDither}
+                    onChange={(e) => setPngDither(e.target.checked)}
+                  />
+                  <span>{t.pngDitherLabel}</span>
+                </label>
+              )}
+              <span className="field-hint">{t.pngColorsHint}</span>
+            </div>
+            <label className="field field-compact">
+              <span className="field-label">{t.animationFormatLabel}</span>
+              <select
+                value={animationFormat}
+                onChange={(e) => setAnimationFormat(e.target.value as AnimationFormat)}
+              >
+                {animationFormats.map((format) => (
+                  <option key={format.value} value={format.value}>
+                    {format.label[lang]}
+                  </option>
+                ))}
+              </select>
+              <span className="field-hint">{t.animationFormatHint}</span>
+            </label>
+            <div className="field field-compact">
+              <span className="field-label">{t.flattenLabel}</span>
+              <select
+                value={flatten.mode}
+                onChange={(e) =>
+                  setFlatten((prev) => ({ ...prev, mode: e.target.value as FlattenMode }))
+                }
+              >
+                {flattenModes.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label[lang]}
+                  </option>
+                ))}
+              </select>
+              {flatten.mode === 'color' && (
+                <input
+                  type="color"
+                  value={flatten.color}
+                  onChange={(e) => setFlatten((prev) => ({ ...prev, color: e.target.value }))}
+                />
+              )}
+              <span className="field-hint">{t.flattenHint}</span>
+            </div>
+            <div className="field field-compact">
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={generateVariants}
+                  onChange={(e) => setGenerateVariants(e.target.checked)}
+                />
+                <span>{t.variantsLabel}</span>
+              </label>
+              {generateVariants && (
+                <input
+                  type="text"
+                  value={variantWidthsText}
+                  onChange={(e) => setVariantWidthsText(e.target.value)}
+                />
+              )}
+              <span className="field-hint">{t.variantsHint}</span>
+            </div>
+            <label className="field field-compact">
+              <span className="field-label">{t.concurrencyLabel}</span>
+              <input
+                type="number"
+                min={1}
+                max={16}
+                value={concurrency}
+                onChange={(e) =>
+                  setConcurrency(Math.min(16, Math.max(1, Number(e.target.value) || 1)))
+                }
+              />
+              <span className="field-hint">{t.concurrencyHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.metadataLabel}</span>
+              <select
+                value={metadataPolicy}
+                onChange={(e) => setMetadataPolicy(e.target.value as MetadataPolicy)}
+              >
+                {metadataPolicies.map((policy) => (
+                  <option key={policy.value} value={policy.value}>
+                    {policy.label[lang]}
+                  </option>
+                ))}
+              </select>
+              <span className="field-hint">{t.metadataHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.budgetLabel}</span>
+              <input
+                type="number"
+                min={0}
+                step={10}
+                value={byteBudgetKb}
+                onChange={(e) => setByteBudgetKb(Math.max(0, Number(e.target.value) || 0))}
+              />
+              <span className="field-hint">{t.budgetHint}</span>
+            </label>
+            <label className="field field-compact">
+              <span className="field-label">{t.ssimLabel}</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.01}
+                value={minSsim}
+                onChange={(e) => setMinSsim(Math.min(1, Math.max(0, Number(e.target.value) || 0)))}
+              />
+              <span className="field-hint">{t.ssimHint}</span>
+            </label>
+          </div>
+
           <div className="control-row">
             <label className="checkbox">
               <input
                 type="checkbox"
-                checked={isSquare}
-                onChange={(e) => setIsSquare(e.target.checked)}
+                checked={watermarkEnabled}
+                onChange={(e) => setWatermarkEnabled(e.target.checked)}
               />
-              <span>{t.checkboxLabel}</span>
+              <span>{t.watermarkLabel}</span>
             </label>
+            {watermarkEnabled && (
+              <>
+                <div className="field field-compact">
+                  <select
+                    value={watermark.type}
+                    onChange={(e) =>
+                      setWatermark((prev) => ({ ...prev, type: e.target.value as 'text' | 'logo' }))
+                    }
+                  >
+                    <option value="text">{t.watermarkText}</option>
+                    <option value="logo">{t.watermarkLogo}</option>
+                  </select>
+                  {watermark.type === 'text' ? (
+                    <input
+                      type="text"
+                      value={watermark.text}
+                      placeholder={t.watermarkTextPlaceholder}
+                      onChange={(e) => setWatermark((prev) => ({ ...prev, text: e.target.value }))}
+                    />
+                  ) : (
+                    <input
+                      type="file"
+                      accept="image/png,image/webp,image/jpeg"
+                      onChange={(e) =>
+                        setWatermark((prev) => ({ ...prev, logo: e.target.files?.[0] ?? null }))
+                      }
+                    />
+                  )}
+                  <span className="field-hint">{t.watermarkHint}</span>
+                </div>
+                <div className="field field-compact">
+                  <select
+                    value={watermark.position}
+                    disabled={watermark.tile}
+                    onChange={(e) =>
+                      setWatermark((prev) => ({
+                        ...prev,
+                        position: e.target.value as WatermarkPosition
+                      }))
+                    }
+                  >
+                    {watermarkPositions.map((position) => (
+                      <option key={position.value} value={position.value}>
+                        {position.label[lang]}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="checkbox">
+                    <input
+                      type="checkbox"
+                      checked={watermark.tile}
+                      onChange={(e) => setWatermark((prev) => ({ ...prev, tile: e.target.checked }))}
+                    />
+                    <span>{t.watermarkTile}</span>
+                  </label>
+                </div>
+                <label className="field field-compact">
+                  <span className="field-label">{t.watermarkOpacity}</span>
+                  <input
+                    type="number"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={Math.round(watermark.opacity * 100)}
+                    onChange={(e) =>
+                      setWatermark((prev) => ({
+                        ...prev,
+                        opacity: Math.min(100, Math.max(5, Number(e.target.value) || 0)) / 100
+                      }))
+                    }
+                  />
+                </label>
+                <label className="field field-compact">
+                  <span className="field-label">{t.watermarkScale}</span>
+                  <input
+                    type="number"
+                    min={5}
+                    max={100}
+                    step={5}
+                    value={Math.round(watermark.scale * 100)}
+                    onChange={(e) =>
+                      setWatermark((prev) => ({
+                        ...prev,
+                        scale: Math.min(100, Math.max(5, Number(e.target.value) || 0)) / 100
+                      }))
+                    }
+                  />
+                </label>
+              </>
+            )}
           </div>
 
           {!!files.length && (
@@ -1167,21 +2849,71 @@ const App: React.FC = () => {
                 {files.map((item, index) => {
                   const matched = processed.find((p) => p.id === item.id);
                   const displayKeyword = item.customKeyword || keyword;
+                  const cropPreviewStyle = getCropPreviewStyle(item);
+                  const duplicate = duplicateGroups.get(item.id);
+                  const warnings = item.audit ? auditWarnings(item.audit, resizeTarget) : [];
+                  const warningNotes = warnings.map((warning) => (
+                    <span key={warning.kind} className="file-warning" title={t.auditHint}>
+                      {t.auditWarning(warning)}
+                    </span>
+                  ));
                   const isProcessingSingle = item.isProcessing || (isProcessing && files.length === 1 && files[0].id === item.id);
                   const fileSizeMB = (item.file.size / 1024 / 1024).toFixed(1);
                   const originalSizeMB = matched ? (matched.originalSizeKb / 1024).toFixed(1) : null;
                   const processedSizeMB = matched ? (matched.sizeKb / 1024).toFixed(1) : null;
                   const savedPercent = matched ? matched.savedPercent : null;
                   
-                  // 生成预览文件名
+                  // 按文件名模板实时生成预览文件名
                   const generatePreviewName = () => {
                     if (!displayKeyword.trim()) return t.waiting;
-                    const cleanKeyword = sanitizeKeyword(displayKeyword) || 'product';
-                    const indexStr = String(index + 1).padStart(2, '0');
-                    const ext = item.file.name.split('.').pop() || 'jpg';
-                    return `${cleanKeyword}-${indexStr}.${ext}`;
+                    const outputSize = estimateOutputSize(item);
+                    const baseName = renderNameTemplate(nameTemplate, {
+                      keyword: displayKeyword,
+                      index: indexStart + index,
+                      indexWidth,
+                      color: item.classification?.color,
+                      material: item.classification?.material,
+                      sku: item.sku,
+                      width: outputSize?.width,
+                      height: outputSize?.height,
+                      original: item.file.name,
+                      date: new Date()
+                    }, { convert: (text) => transliterate(text, slugMode, slugOverrides), policy: slugPolicy });
+                    // 与处理流程一致：动图按动图格式导出（不支持 WebP 编码时为 GIF），静态图按输出格式
+                    const animationType = animationFormatToMime[animationFormat];
+                    const ext = mimeToExt[
+                      item.animated
+                        ? animationType === 'image/webp' && !encodableTypes.has('image/webp')
+                          ? 'image/gif'
+                          : animationType
+                        : resolveOutputType(outputFormat, resolveSourceType(item.file), encodableTypes)
+                    ];
+                    return `${baseName}.${ext}`;
                   };
                   const previewName = matched ? matched.seoName : generatePreviewName();
+                  const autoAltText = buildAltText({
+                    keyword: displayKeyword,
+                    productName,
+                    color: item.classification?.color,
+                    material: item.classification?.material,
+                    style: item.classification?.style
+                  });
+                  const stuffing =
+                    matched || displayKeyword.trim() ? detectStuffing(previewName.replace(/\.[^.]+$/, '')) : null;
+                  if (!matched && issuedNameSet.has(previewName)) {
+                    warningNotes.push(
+                      <span key="issued" className="file-warning" title={t.numberingHint}>
+                        {t.nameIssuedWarning}
+                      </span>
+                    );
+                  }
+                  if (stuffing) {
+                    warningNotes.push(
+                      <span key="stuffing" className="file-warning" title={t.slugPolicyHint}>
+                        {t.stuffingWarning(stuffing)}
+                      </span>
+                    );
+                  }
 
                   return (
                     <div
@@ -1197,8 +2929,15 @@ const App: React.FC = () => {
                       }}
                     >
                       <div className="file-item-main">
-                        <div className="file-preview">
+                        <div className={`file-preview${cropPreviewStyle ? ' file-preview-crop' : ''}`}>
                           <img src={item.previewUrl} alt={item.file.name} />
+                          {cropPreviewStyle && (
+                            <div
+                              className="file-preview-crop-box"
+                              style={cropPreviewStyle}
+                              title={t.smartCropPreview}
+                            />
+                          )}
                         </div>
                         <div className="file-info">
                           <div className="file-name-row">
@@ -1274,6 +3013,47 @@ const App: React.FC = () => {
                                 <span className="file-arrow">→</span>
                                 <span className="file-size-processed">{processedSizeMB} MB</span>
                                 <span className="file-saved">-{savedPercent}%</span>
+                                {warningNotes}
+                                <span className="file-quality">
+                                  {matched.width}×{matched.height}
+                                </span>
+                                {matched.variants.length > 0 && (
+                                  <span
+                                    className="file-quality"
+                                    title={matched.variants.map((v) => v.name).join('\n')}
+                                  >
+                                    {t.variantsCount(matched.variants.length)}
+                                  </span>
+                                )}
+                                {matched.frameCount !== undefined && (
+                                  <span className="file-quality">{t.framesCount(matched.frameCount)}</span>
+                                )}
+                                {matched.formatFallback && (
+                                  <span className="file-quality" title={matched.outputType}>
+                                    {t.formatFallbackNote}
+                                  </span>
+                                )}
+                                {matched.jpegFallback && (
+                                  <span className="file-warning">{t.jpegFallbackNote}</span>
+                                )}
+                                {matched.exifDropped && (
+                                  <span className="file-warning">{t.exifDroppedNote}</span>
+                                )}
+                                {matched.quality !== undefined && (
+                                  <span className="file-quality">{t.qualityLabel(matched.quality)}</span>
+                                )}
+                                {matched.ssim !== undefined && (
+                                  <span className="file-quality">{t.ssimScore(matched.ssim)}</span>
+                                )}
+                                {matched.alphaDiscarded && (
+                                  <span className="file-warning">{t.alphaDiscardedNote}</span>
+                                )}
+                                {matched.colorProfile && (
+                                  <span className="file-quality">{t.colorConverted(matched.colorProfile)}</span>
+                                )}
+                                {matched.unsupportedProfile && (
+                                  <span className="file-warning">{t.unsupportedProfileNote(matched.unsupportedProfile)}</span>
+                                )}
                                 <span className="file-status file-status-success">{t.messageDone}</span>
                               </>
                             ) : isProcessingSingle ? (
@@ -1283,7 +3063,7 @@ const App: React.FC = () => {
                                   {t.messageProcessing}
                                 </span>
                                 <div className="file-progress">
-                                  <div className="file-progress-bar" style={{ width: `${item.processingProgress || 50}%` }}></div>
+                                  <div className="file-progress-bar" style={{ width: `${item.processingProgress ?? 0}%` }}></div>
                                 </div>
                               </>
                             ) : aiProcessingItemId === item.id ? (
@@ -1299,10 +3079,174 @@ const App: React.FC = () => {
                             ) : (
                               <>
                                 <span className="file-size">{fileSizeMB} MB</span>
+                                {warningNotes}
                                 <span className="file-status file-status-waiting">{t.waiting}</span>
                               </>
                             )}
                           </div>
+                          {duplicate && (
+                            <div className="file-duplicate" title={t.duplicateHint}>
+                              <span className="file-duplicate-badge">
+                                {t.duplicateBadge(duplicate.number, duplicate.group.similarity)}
+                              </span>
+                              {duplicate.group.ids[0] === item.id && !isProcessing && (
+                                <>
+                                  <button
+                                    type="button"
+                                    className="file-duplicate-action"
+                                    onClick={() => keepDuplicate(duplicate.group, 'best')}
+                                    title={t.keepBestHint}
+                                  >
+                                    {t.keepBest}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="file-duplicate-action"
+                                    onClick={() => keepDuplicate(duplicate.group, 'smallest')}
+                                    title={t.keepSmallestHint}
+                                  >
+                                    {t.keepSmallest}
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          )}
+                          <label className="file-alt" title={t.altTextHint}>
+                            <span className="file-alt-label">{t.altTextLabel}</span>
+                            <input
+                              type="text"
+                              className="file-option-input"
+                              value={item.altText ?? ''}
+                              placeholder={autoAltText}
+                              onChange={(e) => updateAltText(item.id, e.target.value, autoAltText)}
+                            />
+                            <button
+                              type="button"
+                              className="inline-action"
+                              disabled={aiProcessingItemId === item.id || isProcessingSingle}
+                              onClick={() => regenerateAltText(item.id, autoAltText)}
+                            >
+                              {t.altTextRegenerate}
+                            </button>
+                          </label>
+                          {!matched && (
+                            <div className="file-options">
+                              {/\{sku\}/i.test(nameTemplate) && (
+                                <input
+                                  type="text"
+                                  className="file-option-input"
+                                  value={item.sku ?? ''}
+                                  placeholder={t.skuPlaceholder}
+                                  title={t.skuPlaceholder}
+                                  disabled={isProcessingSingle}
+                                  onChange={(e) => {
+                                    const value = e.target.value;
+                                    setFiles((prev) =>
+                                      prev.map((f) =>
+                                        f.id === item.id ? { ...f, sku: value || undefined } : f
+                                      )
+                                    );
+                                  }}
+                                />
+                              )}
+                              <input
+                                type="number"
+                                min={0}
+                                step={10}
+                                className="file-option-input"
+                                value={item.byteBudgetKb ?? ''}
+                                placeholder={`${t.budgetPlaceholderSingle} (${byteBudgetKb})`}
+                                title={t.budgetLabel}
+                                disabled={isProcessingSingle}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  setFiles((prev) =>
+                                    prev.map((f) =>
+                                      f.id === item.id
+                                        ? {
+                                            ...f,
+                                            byteBudgetKb:
+                                              value === '' ? undefined : Math.max(0, Number(value) || 0)
+                                          }
+                                        : f
+                                    )
+                                  );
+                                }}
+                              />
+                              <select
+                                className="file-option-input"
+                                value={item.aspectPresetId ?? ''}
+                                title={t.aspectLabel}
+                                disabled={isProcessingSingle}
+                                onChange={(e) => {
+                                  const value = e.target.value as AspectPresetId | '';
+                                  setFiles((prev) =>
+                                    prev.map((f) =>
+                                      f.id === item.id
+                                        ? { ...f, aspectPresetId: value === '' ? undefined : value }
+                                        : f
+                                    )
+                                  );
+                                }}
+                              >
+                                <option value="">
+                                  {t.defaultOption(
+                                    aspectPresets.find((p) => p.id === aspectPresetId)!.label[lang]
+                                  )}
+                                </option>
+                                {aspectPresets.map((preset) => (
+                                  <option key={preset.id} value={preset.id}>
+                                    {preset.label[lang]}
+                                  </option>
+                                ))}
+                              </select>
+                              <select
+                                className="file-option-input"
+                                value={item.fitMode ?? ''}
+                                title={t.fitLabel}
+                                disabled={isProcessingSingle}
+                                onChange={(e) => {
+                                  const value = e.target.value as FitMode | '';
+                                  setFiles((prev) =>
+                                    prev.map((f) =>
+                                      f.id === item.id
+                                        ? { ...f, fitMode: value === '' ? undefined : value }
+                                        : f
+                                    )
+                                  );
+                                }}
+                              >
+                                <option value="">
+                                  {t.defaultOption(
+                                    fitModes.find((mode) => mode.value === fitMode)!.label[lang]
+                                  )}
+                                </option>
+                                {fitModes.map((mode) => (
+                                  <option key={mode.value} value={mode.value}>
+                                    {mode.label[lang]}
+                                  </option>
+                                ))}
+                              </select>
+                              {watermarkEnabled && (
+                                <label className="checkbox">
+                                  <input
+                                    type="checkbox"
+                                    checked={item.watermark !== false}
+                                    disabled={isProcessingSingle}
+                                    onChange={(e) => {
+                                      const checked = e.target.checked;
+                                      setFiles((prev) =>
+                                        prev.map((f) =>
+                                          f.id === item.id ? { ...f, watermark: checked } : f
+                                        )
+                                      );
+                                    }}
+                                  />
+                                  <span>{t.watermarkSingle}</span>
+                                </label>
+                              )}
+                            </div>
+                          )}
                         </div>
                         <div className="file-actions">
                           {matched ? (
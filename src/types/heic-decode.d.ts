@@ -0,0 +1,13 @@
+// heic-decode 未提供类型声明
+
+declare module 'heic-decode' {
+  interface DecodedHeic {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+  }
+
+  function decode(input: { buffer: Uint8Array | ArrayBuffer }): Promise<DecodedHeic>;
+
+  export default decode;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ALT_TEXT_MAX_LENGTH, buildAltText } from './altText';
+
+describe('buildAltText', () => {
+  it('combines the product name, modifiers and style', () => {
+    expect(
+      buildAltText({
+        keyword: 'tote',
+        productName: 'Vintage Tote',
+        color: 'red',
+        material: 'leather',
+        style: 'casual'
+      })
+    ).toBe('Vintage Tote – red leather tote in a casual style');
+  });
+
+  it('uses "an" before styles starting with a vowel', () => {
+    expect(buildAltText({ keyword: 'dress', style: 'elegant' })).toBe('Dress in an elegant style');
+  });
+
+  it('skips attributes already in the keyword', () => {
+    expect(buildAltText({ keyword: 'red-leather-bag', color: 'red', material: 'leather' })).toBe(
+      'Red leather bag'
+    );
+  });
+
+  it('truncates at a word boundary', () => {
+    const text = buildAltText({ keyword: 'handmade ceramic coffee mug '.repeat(10) });
+    expect(text.length).toBeLessThanOrEqual(ALT_TEXT_MAX_LENGTH);
+    expect(text.endsWith(' ')).toBe(false);
+    expect(text.split(' ').every((word) => ['Handmade', 'handmade', 'ceramic', 'coffee', 'mug'].includes(word))).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+// alt 文本：按关键词和识别出的颜色、材质、风格在本地组合一句可读的描述
+// 配置了 OpenAI 时由 AI 看图生成（见 imageClassifier 的 generateAltText），这里作为默认和兜底
+
+// 多数读屏软件和平台建议 alt 文本不超过 125 个字符
+export const ALT_TEXT_MAX_LENGTH = 125;
+
+export interface AltTextContext {
+  keyword: string;
+  productName?: string;
+  color?: string;
+  material?: string;
+  style?: string;
+}
+
+/**
+ * 超长时按单词截断，不在单词中间断开
+ */
+function truncateAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength + 1);
+  const boundary = cut.lastIndexOf(' ');
+  return (boundary > 0 ? cut.slice(0, boundary) : text.slice(0, maxLength)).replace(/[\s,;:–-]+$/, '');
+}
+
+/**
+ * 生成 alt 文本，如 "Vintage Tote – red leather handbag in a casual style"。
+ * 关键词中已包含的颜色、材质、风格不会重复出现
+ */
+export function buildAltText({ keyword, productName, color, material, style }: AltTextContext): string {
+  const subject = keyword.replace(/[-_]+/g, ' ').replace(/\s+/g, ' ').trim();
+  const words = new Set(subject.toLowerCase().split(' '));
+  const isNew = (token?: string): token is string =>
+    !!token && !token.split('-').every((word) => words.has(word));
+
+  const modifiers = [color, material].filter(isNew).map((token) => token.replace(/-/g, ' '));
+  let description = [...modifiers, subject].filter(Boolean).join(' ');
+  if (isNew(style)) {
+    const article = /^[aeiou]/i.test(style) ? 'an' : 'a';
+    description += ` in ${article} ${style.replace(/-/g, ' ')} style`;
+  }
+
+  const name = productName?.trim();
+  const sentence = name ? (description ? `${name} – ${description}` : name) : description;
+  return truncateAtWord(sentence.charAt(0).toUpperCase() + sentence.slice(1), ALT_TEXT_MAX_LENGTH);
+}
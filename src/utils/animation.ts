@@ -0,0 +1,161 @@
+// 动图：识别 GIF / 动画 WebP，逐帧解码，并把逐帧编码的 WebP 封装为动画 WebP
+// 优先使用 WebCodecs ImageDecoder；不支持时 GIF 使用内置解码器，动画 WebP 退化为静态图（第一帧）
+
+import { decodeGifFrames, isGif, parseGif } from './gif';
+import { buildRiffChunk, buildWebp, readWebpChunks } from './metadata';
+
+// webp：动画 WebP（浏览器不支持 WebP 编码时回退到 GIF）；gif：优化后的 GIF
+export type AnimationFormat = 'webp' | 'gif';
+
+export const animationFormatToMime: Record<AnimationFormat, string> = {
+  webp: 'image/webp',
+  gif: 'image/gif'
+};
+
+export interface AnimationFrame {
+  bitmap: ImageBitmap; // 合成后的完整画面，使用后需 close
+  duration: number; // 毫秒
+}
+
+export interface AnimationSource {
+  width: number;
+  height: number;
+  frameCount: number;
+  loopCount: number; // 0 表示无限循环，否则为总播放次数
+  frames: () => AsyncGenerator<AnimationFrame>;
+}
+
+const VP8X_ANIMATION = 0x02;
+const VP8X_ALPHA = 0x10;
+const ANMF_NO_BLEND = 0x02;
+const FRAME_CHUNKS = ['ALPH', 'VP8 ', 'VP8L'];
+
+const isWebp = (bytes: Uint8Array) =>
+  String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+  String.fromCharCode(...bytes.subarray(8, 12)) === 'WEBP';
+
+/**
+ * 是否为多帧动图（单帧 GIF 按静态图处理）
+ */
+export function isAnimatedImage(bytes: Uint8Array): boolean {
+  if (isGif(bytes)) return parseGif(bytes).frames.length > 1;
+  if (isWebp(bytes)) {
+    const vp8x = readWebpChunks(bytes).find((c) => c.type === 'VP8X');
+    return !!vp8x && (bytes[vp8x.dataStart] & VP8X_ANIMATION) !== 0;
+  }
+  return false;
+}
+
+/**
+ * WebCodecs 解码：支持 GIF 和动画 WebP
+ */
+async function openWithImageDecoder(source: Blob, type: string): Promise<AnimationSource | null> {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(type))) {
+    return null;
+  }
+  const decoder = new ImageDecoder({ data: source.stream(), type });
+  await decoder.completed;
+  const track = decoder.tracks.selectedTrack;
+  if (!track) {
+    decoder.close();
+    return null;
+  }
+
+  const first = await decoder.decode({ frameIndex: 0 });
+  const width = first.image.displayWidth;
+  const height = first.image.displayHeight;
+  first.image.close();
+  const repetitions = track.repetitionCount;
+
+  return {
+    width,
+    height,
+    frameCount: track.frameCount,
+    loopCount: Number.isFinite(repetitions) ? repetitions + 1 : 0,
+    frames: async function* () {
+      try {
+        for (let i = 0; i < track.frameCount; i += 1) {
+          const { image } = await decoder.decode({ frameIndex: i });
+          const duration = (image.duration ?? 0) / 1000;
+          const bitmap = await createImageBitmap(image);
+          image.close();
+          yield { bitmap, duration };
+        }
+      } finally {
+        decoder.close();
+      }
+    }
+  };
+}
+
+/**
+ * 内置 GIF 解码
+ */
+function openGif(bytes: Uint8Array): AnimationSource {
+  const gif = parseGif(bytes);
+  return {
+    width: gif.width,
+    height: gif.height,
+    frameCount: gif.frames.length,
+    loopCount: gif.loopCount,
+    frames: async function* () {
+      for (const { data, delay } of decodeGifFrames(gif)) {
+        const bitmap = await createImageBitmap(new ImageData(data.slice(), gif.width, gif.height));
+        yield { bitmap, duration: delay };
+      }
+    }
+  };
+}
+
+/**
+ * 打开动图；不是动图或当前浏览器无法逐帧解码时返回 null，由调用方按静态图处理
+ */
+export async function openAnimation(source: Blob): Promise<AnimationSource | null> {
+  const bytes = new Uint8Array(await source.arrayBuffer());
+  if (!isAnimatedImage(bytes)) return null;
+  const type = isGif(bytes) ? 'image/gif' : 'image/webp';
+  const decoded = await openWithImageDecoder(source, type).catch(() => null);
+  if (decoded) return decoded;
+  return type === 'image/gif' ? openGif(bytes) : null;
+}
+
+const u24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+/**
+ * 把逐帧编码的静态 WebP 封装为动画 WebP。每帧都是完整画面，不与上一帧混合
+ */
+export function muxAnimatedWebp(
+  frames: Array<{ bytes: Uint8Array; duration: number }>,
+  width: number,
+  height: number,
+  loopCount: number
+): Uint8Array {
+  let alpha = false;
+  const anmf = frames.map(({ bytes, duration }) => {
+    const chunks = readWebpChunks(bytes).filter((c) => FRAME_CHUNKS.includes(c.type));
+    if (chunks.some((c) => c.type !== 'VP8 ')) alpha = true;
+
+    const header = new Uint8Array(16);
+    // 帧偏移 (0, 0)、帧宽高 - 1、时长（毫秒）、标记
+    header.set([0, 0, 0, 0, 0, 0, ...u24(width - 1), ...u24(height - 1), ...u24(Math.round(duration))]);
+    header[15] = ANMF_NO_BLEND;
+    const data = new Uint8Array(16 + chunks.reduce((sum, c) => sum + c.end - c.start, 0));
+    data.set(header);
+    let offset = 16;
+    chunks.forEach((c) => {
+      data.set(bytes.subarray(c.start, c.end), offset);
+      offset += c.end - c.start;
+    });
+    return buildRiffChunk('ANMF', data);
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = VP8X_ANIMATION | (alpha ? VP8X_ALPHA : 0);
+  vp8x.set([...u24(width - 1), ...u24(height - 1)], 4);
+
+  // 背景色（BGRA，浏览器通常忽略）+ 循环次数
+  const anim = new Uint8Array(6);
+  anim.set([0xff, 0xff, 0xff, 0xff, loopCount & 0xff, (loopCount >> 8) & 0xff]);
+
+  return buildWebp([buildRiffChunk('VP8X', vp8x), buildRiffChunk('ANIM', anim), ...anmf]);
+}
@@ -0,0 +1,107 @@
+// 背景处理：留白区域的填充色，以及输出格式不支持透明时的透明像素合成
+
+import { createCanvas, get2dContext, type AnyCanvas, type Canvas2D } from './canvas';
+
+export type PadBackground = 'white' | 'transparent' | 'edge';
+
+// white：白色；color：自定义颜色；blur：用模糊后的图片边缘向外延伸填充
+export type FlattenMode = 'white' | 'color' | 'blur';
+
+export interface FlattenOptions {
+  mode: FlattenMode;
+  color: string; // mode 为 color 时使用，如 #f5f5f5
+}
+
+export const DEFAULT_FLATTEN: FlattenOptions = { mode: 'white', color: '#ffffff' };
+
+const FLATTEN_BLUR_RATIO = 0.04; // 模糊半径占最长边的比例
+
+const WHITE = '#ffffff';
+const SAMPLE_SIZE = 32;
+
+// 支持透明通道的输出格式（GIF 仅支持全透明 / 不透明）
+const ALPHA_TYPES = ['image/png', 'image/webp', 'image/avif', 'image/gif'];
+
+export const supportsAlpha = (type: string) => ALPHA_TYPES.includes(type);
+
+/**
+ * 取图片四周边缘像素的平均色（忽略透明像素），用于与商品背景自然衔接
+ */
+export function sampleEdgeColor(bitmap: CanvasImageSource): string {
+  const canvas = createCanvas(SAMPLE_SIZE, SAMPLE_SIZE);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let weight = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y += 1) {
+    for (let x = 0; x < SAMPLE_SIZE; x += 1) {
+      if (x !== 0 && y !== 0 && x !== SAMPLE_SIZE - 1 && y !== SAMPLE_SIZE - 1) continue;
+      const i = (y * SAMPLE_SIZE + x) * 4;
+      const alpha = data[i + 3] / 255;
+      r += data[i] * alpha;
+      g += data[i + 1] * alpha;
+      b += data[i + 2] * alpha;
+      weight += alpha;
+    }
+  }
+
+  if (weight === 0) return WHITE;
+  return `rgb(${Math.round(r / weight)}, ${Math.round(g / weight)}, ${Math.round(b / weight)})`;
+}
+
+/**
+ * 画布中是否存在非不透明像素
+ */
+export function canvasHasAlpha(ctx: Canvas2D, width: number, height: number): boolean {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+}
+
+/**
+ * 把透明像素合成到背景上（原地修改画布），避免编码为 JPEG 时透明区域变黑、抠图边缘出现黑边
+ */
+export function flattenAlpha(canvas: AnyCanvas, options: FlattenOptions): void {
+  const { width, height } = canvas;
+  const ctx = get2dContext(canvas);
+  const source = createCanvas(width, height);
+  get2dContext(source).drawImage(canvas, 0, 0);
+
+  ctx.save();
+  // 之后绘制的内容都放到现有像素的下方
+  ctx.globalCompositeOperation = 'destination-over';
+  if (options.mode === 'blur') {
+    // 多次叠加模糊副本，把边缘颜色扩散到透明区域；不支持 filter 的浏览器退化为边缘平均色
+    ctx.filter = `blur(${Math.max(4, Math.round(Math.max(width, height) * FLATTEN_BLUR_RATIO))}px)`;
+    for (let i = 0; i < 3; i += 1) ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+  }
+  ctx.fillStyle =
+    options.mode === 'color'
+      ? options.color
+      : options.mode === 'blur'
+        ? sampleEdgeColor(source)
+        : WHITE;
+  ctx.fillRect(0, 0, width, height);
+  ctx.restore();
+}
+
+/**
+ * 得到留白区域的填充色；返回 null 表示保持透明。
+ * 输出格式不支持透明（如 JPEG）时，透明背景改为白色，避免变成黑色
+ */
+export function resolveBackgroundColor(
+  background: PadBackground,
+  bitmap: ImageBitmap,
+  outputType: string
+): string | null {
+  if (background === 'edge') return sampleEdgeColor(bitmap);
+  if (background === 'transparent' && supportsAlpha(outputType)) return null;
+  return WHITE;
+}
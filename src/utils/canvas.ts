@@ -0,0 +1,48 @@
+// 画布工具：在 Worker 中使用 OffscreenCanvas，主线程不支持时回退到 <canvas>
+
+export type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+export type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+export const supportsOffscreenCanvas =
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function';
+
+/**
+ * 创建指定尺寸的画布
+ */
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (supportsOffscreenCanvas) {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * 获取 2D 上下文，并开启高质量缩放
+ */
+export function get2dContext(canvas: AnyCanvas): Canvas2D {
+  const ctx = canvas.getContext('2d') as Canvas2D | null;
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+}
+
+/**
+ * 将画布编码为 Blob
+ */
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error('toBlob failed'))),
+      type,
+      quality
+    );
+  });
+}
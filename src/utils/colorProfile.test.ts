@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { profileFromNclx } from './colorProfile';
+
+// sRGB（BT.709 原色，D65 → D50 Bradford 适应）的标准 RGB → XYZ 矩阵
+const SRGB_D50 = [
+  0.4360747, 0.3850649, 0.1430804, 0.2225045, 0.7168786, 0.0606169, 0.0139322, 0.0971045, 0.7141733
+];
+
+describe('profileFromNclx', () => {
+  it('treats BT.709 primaries with the sRGB transfer as sRGB', () => {
+    expect(profileFromNclx(1, 13).isSrgb).toBe(true);
+    expect(profileFromNclx(2, 2).isSrgb).toBe(true);
+  });
+
+  it('derives the BT.709 matrix from chromaticities', () => {
+    const profile = profileFromNclx(1, 1);
+    expect(profile.isSrgb).toBe(false);
+    profile.toXyz!.forEach((value, i) => expect(value).toBeCloseTo(SRGB_D50[i], 3));
+  });
+
+  it('builds a convertible Display P3 profile', () => {
+    const profile = profileFromNclx(12, 13);
+    expect(profile.description).toBe('Display P3');
+    expect(profile.toXyz).not.toBeNull();
+    expect(profile.curves![0](1)).toBeCloseTo(1);
+    // 白点（RGB 全 1）映射到 D50
+    const [x, y, z] = [0, 3, 6].map((row) => profile.toXyz!.slice(row, row + 3).reduce((a, b) => a + b));
+    expect(x).toBeCloseTo(0.9642, 3);
+    expect(y).toBeCloseTo(1, 3);
+    expect(z).toBeCloseTo(0.8249, 3);
+  });
+
+  it('marks HDR transfers and unknown primaries as not convertible', () => {
+    expect(profileFromNclx(9, 16).toXyz).toBeNull();
+    expect(profileFromNclx(11, 13).toXyz).toBeNull();
+  });
+});
@@ -0,0 +1,333 @@
+// 色彩管理：解析 ICC 配置文件（矩阵 + 色调曲线型，如 Display P3、Adobe RGB），把像素转换为 sRGB
+// LUT 型配置文件（A2B 查找表）不在本地转换，解析结果的 toXyz 为 null
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+type ToneCurve = (v: number) => number; // 0-1 编码值 → 线性值
+
+export interface IccProfile {
+  description: string;
+  isSrgb: boolean;
+  // 矩阵型配置文件才能在本地转换，其他（如 LUT 型、CMYK）为 null
+  toXyz: Matrix3 | null;
+  curves: [ToneCurve, ToneCurve, ToneCurve] | null;
+}
+
+// sRGB 原色在 D50 PCS 下的 XYZ（Bradford 适配），以及其逆矩阵
+const SRGB_TO_XYZ_D50: Matrix3 = [
+  0.4360747, 0.3850649, 0.1430804, 0.2225045, 0.7168786, 0.0606169, 0.0139322, 0.0971045, 0.7141733
+];
+const XYZ_D50_TO_SRGB: Matrix3 = [
+  3.1338561, -1.6168667, -0.4906146, -0.9787684, 1.9161415, 0.033454, 0.0719453, -0.2289914, 1.4052427
+];
+// D65 → D50 的 Bradford 色适应矩阵（ICC v4 chad 标签）
+const BRADFORD_D65_TO_D50: Matrix3 = [
+  1.0478112, 0.0228866, -0.050127, 0.0295424, 0.9904844, -0.0170491, -0.0092345, 0.0150436, 0.7521316
+];
+const D50 = [0.9642, 1, 0.8249];
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 => {
+  const out = new Array(9).fill(0) as Matrix3;
+  for (let r = 0; r < 3; r += 1) {
+    for (let c = 0; c < 3; c += 1) {
+      out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+    }
+  }
+  return out;
+};
+
+const tagType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const s15Fixed16 = (view: DataView, offset: number) => view.getInt32(offset) / 65536;
+
+// 参数化曲线（para）的 5 种函数形式
+function parametricCurve(type: number, p: number[]): ToneCurve {
+  const [g, a = 1, b = 0, c = 0, d = 0, e = 0, f = 0] = p;
+  switch (type) {
+    case 1:
+      return (x) => (x >= -b / a ? (a * x + b) ** g : 0);
+    case 2:
+      return (x) => (x >= -b / a ? (a * x + b) ** g + c : c);
+    case 3:
+      return (x) => (x >= d ? (a * x + b) ** g : c * x);
+    case 4:
+      return (x) => (x >= d ? (a * x + b) ** g + e : c * x + f);
+    default:
+      return (x) => x ** g;
+  }
+}
+
+function readCurve(bytes: Uint8Array, view: DataView, offset: number): ToneCurve | null {
+  const type = tagType(bytes, offset);
+  if (type === 'curv') {
+    const count = view.getUint32(offset + 8);
+    if (count === 0) return (x) => x;
+    if (count === 1) {
+      const gamma = view.getUint16(offset + 12) / 256;
+      return (x) => x ** gamma;
+    }
+    const table = Array.from({ length: count }, (_, i) => view.getUint16(offset + 12 + i * 2) / 65535);
+    return (x) => {
+      const pos = x * (count - 1);
+      const i = Math.min(count - 2, Math.floor(pos));
+      return table[i] + (table[i + 1] - table[i]) * (pos - i);
+    };
+  }
+  if (type === 'para') {
+    const fn = view.getUint16(offset + 8);
+    const paramCount = [1, 3, 4, 5, 7][fn] ?? 1;
+    const params = Array.from({ length: paramCount }, (_, i) => s15Fixed16(view, offset + 12 + i * 4));
+    return parametricCurve(fn, params);
+  }
+  return null;
+}
+
+function readDescription(bytes: Uint8Array, view: DataView, offset: number): string {
+  const type = tagType(bytes, offset);
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return new TextDecoder().decode(bytes.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '');
+  }
+  if (type === 'mluc') {
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    let text = '';
+    for (let i = 0; i + 1 < length; i += 2) text += String.fromCharCode(view.getUint16(start + i));
+    return text.replace(/\0+$/, '');
+  }
+  return '';
+}
+
+/**
+ * 解析 ICC 配置文件；格式不正确时返回 null
+ */
+export function parseIccProfile(bytes: Uint8Array | null): IccProfile | null {
+  if (!bytes || bytes.length < 132 || tagType(bytes, 36) !== 'acsp') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tags = new Map<string, number>();
+  const count = view.getUint32(128);
+  for (let i = 0; i < count; i += 1) {
+    const p = 132 + i * 12;
+    if (p + 12 > bytes.length) break;
+    tags.set(tagType(bytes, p), view.getUint32(p + 4));
+  }
+
+  const description = tags.has('desc') ? readDescription(bytes, view, tags.get('desc')!) : '';
+  const xyz = (sig: string) => {
+    const offset = tags.get(sig);
+    if (offset === undefined || tagType(bytes, offset) !== 'XYZ ') return null;
+    return [0, 1, 2].map((i) => s15Fixed16(view, offset + 8 + i * 4));
+  };
+  const [r, g, b] = [xyz('rXYZ'), xyz('gXYZ'), xyz('bXYZ')];
+  const curves = ['rTRC', 'gTRC', 'bTRC'].map((sig) =>
+    tags.has(sig) ? readCurve(bytes, view, tags.get(sig)!) : null
+  );
+  const isRgb = tagType(bytes, 16) === 'RGB ';
+
+  const toXyz: Matrix3 | null =
+    isRgb && r && g && b ? [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]] : null;
+  const hasCurves = curves.every(Boolean);
+
+  // 原色与 sRGB 一致（或名称为 sRGB）即视为 sRGB，无需转换
+  const isSrgb =
+    /srgb/i.test(description) ||
+    (toXyz !== null && toXyz.every((v, i) => Math.abs(v - SRGB_TO_XYZ_D50[i]) < 0.005));
+
+  return {
+    description,
+    isSrgb,
+    toXyz: hasCurves ? toXyz : null,
+    curves: hasCurves && toXyz ? (curves as [ToneCurve, ToneCurve, ToneCurve]) : null
+  };
+}
+
+// H.273 色彩原色（nclx colour_primaries）：红、绿、蓝的 xy 色度坐标，白点均为 D65
+const NCLX_PRIMARIES: Partial<Record<number, { name: string; xy: number[] }>> = {
+  1: { name: 'BT.709', xy: [0.64, 0.33, 0.3, 0.6, 0.15, 0.06] },
+  9: { name: 'BT.2020', xy: [0.708, 0.292, 0.17, 0.797, 0.131, 0.046] },
+  12: { name: 'Display P3', xy: [0.68, 0.32, 0.265, 0.69, 0.15, 0.06] }
+};
+const D65_XY = [0.3127, 0.329];
+
+const srgbCurve: ToneCurve = (v) => (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4);
+const bt709Curve: ToneCurve = (v) => (v < 0.081 ? v / 4.5 : ((v + 0.099) / 1.099) ** (1 / 0.45));
+
+// H.273 传递函数（nclx transfer_characteristics），PQ、HLG 等 HDR 曲线不支持
+const NCLX_TRANSFER: Partial<Record<number, ToneCurve>> = {
+  1: bt709Curve,
+  4: (v) => v ** 2.2,
+  5: (v) => v ** 2.8,
+  6: bt709Curve,
+  8: (v) => v,
+  13: srgbCurve,
+  14: bt709Curve,
+  15: bt709Curve
+};
+
+const UNSPECIFIED = 2;
+
+const invert = (m: Matrix3): Matrix3 => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det
+  ];
+};
+
+/**
+ * 由原色和 D65 白点的色度坐标计算 RGB → XYZ（D50 PCS）矩阵
+ */
+function primariesToXyzD50(xy: number[]): Matrix3 {
+  const toXyz = (x: number, y: number) => [x / y, 1, (1 - x - y) / y];
+  const [r, g, b] = [0, 2, 4].map((i) => toXyz(xy[i], xy[i + 1]));
+  const primaries: Matrix3 = [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]];
+  const white = toXyz(D65_XY[0], D65_XY[1]);
+  const inv = invert(primaries);
+  const scale = [0, 1, 2].map((row) => inv[row * 3] * white[0] + inv[row * 3 + 1] * white[1] + inv[row * 3 + 2] * white[2]);
+  const d65 = primaries.map((v, i) => v * scale[i % 3]) as Matrix3;
+  return multiply(BRADFORD_D65_TO_D50, d65);
+}
+
+/**
+ * 把 HEIF / AVIF 的 nclx 色彩参数转换为与 ICC 配置文件相同的结构。
+ * 原色或传递函数不受支持时 toXyz 为 null（无法在本地转换）
+ */
+export function profileFromNclx(primaries: number, transfer: number): IccProfile {
+  const resolvedPrimaries = primaries === UNSPECIFIED ? 1 : primaries;
+  const resolvedTransfer = transfer === UNSPECIFIED ? 13 : transfer;
+  const known = NCLX_PRIMARIES[resolvedPrimaries];
+  const curve = NCLX_TRANSFER[resolvedTransfer];
+  const description = `${known?.name ?? `nclx ${primaries}`}${curve ? '' : ` (transfer ${transfer})`}`;
+  if (resolvedPrimaries === 1 && resolvedTransfer === 13) {
+    return { description: 'sRGB', isSrgb: true, toXyz: null, curves: null };
+  }
+  if (!known || !curve) return { description, isSrgb: false, toXyz: null, curves: null };
+  return { description, isSrgb: false, toXyz: primariesToXyzD50(known.xy), curves: [curve, curve, curve] };
+}
+
+const srgbEncode = (v: number) =>
+  v <= 0.0031308 ? 12.92 * v : 1.055 * v ** (1 / 2.4) - 0.055;
+
+/**
+ * 把 RGBA 像素从配置文件色彩空间原地转换到 sRGB
+ */
+export function convertToSrgb(data: Uint8ClampedArray, profile: IccProfile): void {
+  if (!profile.toXyz || !profile.curves) return;
+  const m = multiply(XYZ_D50_TO_SRGB, profile.toXyz);
+  const inputLut = profile.curves.map((curve) =>
+    Float32Array.from({ length: 256 }, (_, i) => curve(i / 255))
+  );
+  const OUTPUT_STEPS = 4096;
+  const outputLut = Uint8ClampedArray.from({ length: OUTPUT_STEPS + 1 }, (_, i) =>
+    Math.round(srgbEncode(i / OUTPUT_STEPS) * 255)
+  );
+  const encode = (v: number) => outputLut[Math.round(Math.min(1, Math.max(0, v)) * OUTPUT_STEPS)];
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = inputLut[0][data[i]];
+    const g = inputLut[1][data[i + 1]];
+    const b = inputLut[2][data[i + 2]];
+    data[i] = encode(m[0] * r + m[1] * g + m[2] * b);
+    data[i + 1] = encode(m[3] * r + m[4] * g + m[5] * b);
+    data[i + 2] = encode(m[6] * r + m[7] * g + m[8] * b);
+  }
+}
+
+/**
+ * 生成精简的矩阵型 ICC v4 配置文件（sRGB 色调曲线 + 给定原色）
+ */
+function buildMatrixProfile(description: string, toXyz: Matrix3): Uint8Array {
+  const encoder = new TextEncoder();
+  const fixed = (values: number[]) => {
+    const out = new Uint8Array(values.length * 4);
+    const view = new DataView(out.buffer);
+    values.forEach((v, i) => view.setInt32(i * 4, Math.round(v * 65536)));
+    return out;
+  };
+  const withType = (type: string, body: Uint8Array) => {
+    const out = new Uint8Array(8 + body.length);
+    out.set(encoder.encode(type));
+    out.set(body, 8);
+    return out;
+  };
+  const mluc = (text: string) => {
+    const body = new Uint8Array(20 + text.length * 2);
+    const view = new DataView(body.buffer);
+    view.setUint32(0, 1); // 记录数
+    view.setUint32(4, 12); // 记录长度
+    body.set(encoder.encode('enUS'), 8);
+    view.setUint32(12, text.length * 2);
+    view.setUint32(16, 28); // 相对标签起点的偏移
+    [...text].forEach((c, i) => view.setUint16(20 + i * 2, c.charCodeAt(0)));
+    return withType('mluc', body);
+  };
+  const xyz = (values: number[]) => withType('XYZ ', fixed(values));
+  const s = toXyz;
+
+  const trcBody = new Uint8Array(4 + 20);
+  new DataView(trcBody.buffer).setUint16(0, 3);
+  trcBody.set(fixed([2.4, 1 / 1.055, 0.055 / 1.055, 1 / 12.92, 0.04045]), 4);
+
+  const entries: Array<[string[], Uint8Array]> = [
+    [['desc'], mluc(description)],
+    [['cprt'], mluc('CC0')],
+    [['wtpt'], xyz(D50)],
+    [['chad'], withType('sf32', fixed(BRADFORD_D65_TO_D50))],
+    [['rXYZ'], xyz([s[0], s[3], s[6]])],
+    [['gXYZ'], xyz([s[1], s[4], s[7]])],
+    [['bXYZ'], xyz([s[2], s[5], s[8]])],
+    [['rTRC', 'gTRC', 'bTRC'], withType('para', trcBody)]
+  ];
+
+  const tagCount = entries.reduce((sum, [sigs]) => sum + sigs.length, 0);
+  let offset = 128 + 4 + tagCount * 12;
+  const placed = entries.map(([sigs, data]) => {
+    const at = offset;
+    offset += Math.ceil(data.length / 4) * 4;
+    return { sigs, data, at };
+  });
+
+  const profile = new Uint8Array(offset);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, offset);
+  view.setUint32(8, 0x04300000); // 版本 4.3
+  profile.set(encoder.encode('mntrRGB XYZ '), 12);
+  profile.set(encoder.encode('acsp'), 36);
+  profile.set(fixed(D50), 68); // PCS 光源
+  view.setUint32(128, tagCount);
+
+  let tagIndex = 0;
+  placed.forEach(({ sigs, data, at }) => {
+    profile.set(data, at);
+    sigs.forEach((sig) => {
+      const p = 132 + tagIndex * 12;
+      profile.set(encoder.encode(sig), p);
+      view.setUint32(p + 4, at);
+      view.setUint32(p + 8, data.length);
+      tagIndex += 1;
+    });
+  });
+
+  return profile;
+}
+
+let srgbProfile: Uint8Array | null = null;
+
+/**
+ * 生成精简的 sRGB ICC v4 配置文件（约 500 字节），用于标记输出文件
+ */
+export function buildSrgbProfile(): Uint8Array {
+  srgbProfile ??= buildMatrixProfile('sRGB', SRGB_TO_XYZ_D50);
+  return srgbProfile;
+}
+
+/**
+ * 红、绿原色互换的配置文件，用于检测浏览器解码时是否按内嵌配置文件转换色彩：
+ * 标记了它的纯红图片，转换后应显示为绿色
+ */
+export function buildSwappedProfile(): Uint8Array {
+  const s = SRGB_TO_XYZ_D50;
+  return buildMatrixProfile('Swapped RG', [s[1], s[0], s[2], s[4], s[3], s[5], s[7], s[6], s[8]]);
+}
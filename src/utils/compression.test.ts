@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWithinBudget, type EncodeFn } from './compression';
+
+// 模拟编码器：体积随质量线性增长（quality 1 → 1000 字节）
+const createEncoder = () => {
+  const calls: Array<number | undefined> = [];
+  const encode: EncodeFn = async (type, quality) => {
+    calls.push(quality);
+    return new Blob([new Uint8Array(Math.round((quality ?? 1) * 1000))], { type });
+  };
+  return { encode, calls };
+};
+
+describe('encodeWithinBudget', () => {
+  it('encodes lossless formats once without a quality', async () => {
+    const { encode, calls } = createEncoder();
+    const result = await encodeWithinBudget(encode, 'image/png', 100);
+    expect(result.quality).toBeUndefined();
+    expect(calls).toEqual([undefined]);
+  });
+
+  it('uses the top quality when it fits or the budget is off', async () => {
+    const { encode } = createEncoder();
+    expect((await encodeWithinBudget(encode, 'image/jpeg', 0)).quality).toBe(0.92);
+    expect((await encodeWithinBudget(encode, 'image/jpeg', 1000)).quality).toBe(0.92);
+  });
+
+  it('finds the highest quality within the budget', async () => {
+    const { encode } = createEncoder();
+    const result = await encodeWithinBudget(encode, 'image/webp', 700);
+    expect(result.blob.size).toBeLessThanOrEqual(700);
+    expect(result.quality).toBeGreaterThan(0.68);
+  });
+
+  it('returns the minimum quality when nothing fits', async () => {
+    const { encode } = createEncoder();
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 100);
+    expect(result.quality).toBe(0.4);
+    expect(result.blob.size).toBe(400);
+  });
+
+  it('raises the quality above the budget to meet the score floor', async () => {
+    const { encode } = createEncoder();
+    const score = async (blob: Blob) => blob.size / 1000;
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 500, { score, minScore: 0.8 });
+    expect(result.score).toBeGreaterThanOrEqual(0.8);
+    expect(result.quality).toBeLessThan(0.92);
+  });
+
+  it('falls back to the top quality when the floor cannot be met', async () => {
+    const { encode } = createEncoder();
+    const score = async () => 0.5;
+    const result = await encodeWithinBudget(encode, 'image/jpeg', 500, { score, minScore: 0.9 });
+    expect(result).toMatchObject({ quality: 0.92, score: 0.5 });
+  });
+});
@@ -0,0 +1,121 @@
+// 按字节预算压缩图片
+// 在质量区间内二分查找，得到不超过预算的最高质量；可选的感知质量下限优先于预算
+
+// 编码函数：给定 MIME 类型和质量返回编码后的 Blob
+export type EncodeFn = (type: string, quality?: number) => Promise<Blob>;
+
+export interface BudgetOptions {
+  minQuality?: number;
+  maxQuality?: number;
+  maxSteps?: number;
+  onProgress?: (fraction: number) => void; // 每完成一次编码回调，取值 0-1
+  score?: (blob: Blob) => Promise<number>; // 感知质量评分（如 SSIM）
+  minScore?: number; // 评分下限，低于该值时提高质量，即使超出预算
+}
+
+export interface BudgetResult {
+  blob: Blob;
+  quality?: number; // 不支持质量参数的格式（如 PNG）为 undefined
+  score?: number; // 未提供评分函数时为 undefined
+}
+
+// 默认每张图片的体积预算（KB）
+export const DEFAULT_BUDGET_KB = 200;
+
+const DEFAULT_MIN_QUALITY = 0.4;
+const DEFAULT_MAX_QUALITY = 0.92;
+const DEFAULT_MAX_STEPS = 6;
+const SCORE_FLOOR_STEPS = 4;
+
+/**
+ * 该格式是否支持 toBlob 的质量参数
+ */
+export const supportsQuality = (type: string) =>
+  type === 'image/jpeg' || type === 'image/webp' || type === 'image/avif';
+
+/**
+ * 在 [minQuality, maxQuality] 内二分查找不超过 budgetBytes 的最高质量。
+ * budgetBytes <= 0 表示不限制体积，直接使用最高质量。
+ * 即使最低质量仍超出预算，也返回最低质量的结果，由调用方决定是否退回原图。
+ * 提供 score 时结果会附带评分；评分低于 minScore 时改用满足下限的最低质量。
+ */
+export async function encodeWithinBudget(
+  encode: EncodeFn,
+  type: string,
+  budgetBytes: number,
+  options: BudgetOptions = {}
+): Promise<BudgetResult> {
+  if (!supportsQuality(type)) {
+    return { blob: await encode(type) };
+  }
+
+  const minQuality = options.minQuality ?? DEFAULT_MIN_QUALITY;
+  const maxQuality = options.maxQuality ?? DEFAULT_MAX_QUALITY;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const report = (done: number) => options.onProgress?.(Math.min(1, done / (maxSteps + 1)));
+
+  const top = await encode(type, maxQuality);
+  if (budgetBytes <= 0 || top.size <= budgetBytes) {
+    options.onProgress?.(1);
+    return withScore({ blob: top, quality: maxQuality }, options);
+  }
+  report(1);
+
+  let low = minQuality;
+  let high = maxQuality;
+  let best: BudgetResult | null = null;
+
+  for (let step = 0; step < maxSteps; step += 1) {
+    const quality = +((low + high) / 2).toFixed(3);
+    const blob = await encode(type, quality);
+    if (blob.size <= budgetBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+    report(step + 2);
+  }
+
+  // 最低质量仍超出预算：使用最小的结果
+  const result = best ?? { blob: await encode(type, minQuality), quality: minQuality };
+  return enforceScoreFloor(encode, type, result, maxQuality, options);
+}
+
+const withScore = async (result: BudgetResult, options: BudgetOptions): Promise<BudgetResult> =>
+  options.score ? { ...result, score: await options.score(result.blob) } : result;
+
+/**
+ * 评分低于下限时，在 (quality, maxQuality] 内二分查找满足下限的最低质量
+ */
+async function enforceScoreFloor(
+  encode: EncodeFn,
+  type: string,
+  result: BudgetResult,
+  maxQuality: number,
+  options: BudgetOptions
+): Promise<BudgetResult> {
+  const { score, minScore = 0 } = options;
+  const current = await withScore(result, options);
+  if (!score || current.score! >= minScore || current.quality === undefined) return current;
+
+  let low = current.quality;
+  let high = maxQuality;
+  let best: BudgetResult | null = null;
+
+  for (let step = 0; step < SCORE_FLOOR_STEPS; step += 1) {
+    const quality = +((low + high) / 2).toFixed(3);
+    const blob = await encode(type, quality);
+    const blobScore = await score(blob);
+    if (blobScore >= minScore) {
+      best = { blob, quality, score: blobScore };
+      high = quality;
+    } else {
+      low = quality;
+    }
+  }
+
+  if (best) return best;
+  const top = await encode(type, maxQuality);
+  return { blob: top, quality: maxQuality, score: await score(top) };
+}
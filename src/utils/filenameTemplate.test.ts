@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { renderNameTemplate, type NameTokens } from './filenameTemplate';
+import { DEFAULT_SLUG_POLICY } from './slug';
+
+const tokens: NameTokens = {
+  keyword: 'Red Dress',
+  index: 3,
+  original: 'IMG_0042.JPG',
+  date: new Date(2024, 4, 9)
+};
+
+describe('renderNameTemplate', () => {
+  it('renders tokens and pads the index', () => {
+    expect(renderNameTemplate('{keyword}-{index}', tokens)).toBe('red-dress-03');
+    expect(renderNameTemplate('{keyword}-{index:3}-{date}', tokens)).toBe('red-dress-003-20240509');
+    expect(renderNameTemplate('{original}', tokens)).toBe('img-0042');
+  });
+
+  it('collapses separators around empty tokens', () => {
+    expect(renderNameTemplate('{sku}-{keyword}--{color}', tokens)).toBe('red-dress');
+  });
+
+  it('drops the dimensions until they are known', () => {
+    expect(renderNameTemplate('{keyword}-{width}x{height}', tokens)).toBe('red-dress');
+    expect(renderNameTemplate('{keyword}-{width}x{height}', { ...tokens, width: 800, height: 600 })).toBe(
+      'red-dress-800x600'
+    );
+  });
+
+  it('keeps unknown tokens visible and falls back to "product"', () => {
+    expect(renderNameTemplate('{keyword}-{foo}', tokens)).toBe('red-dress-foo');
+    expect(renderNameTemplate('{sku}', tokens)).toBe('product');
+  });
+
+  it('applies the slug policy to the keyword', () => {
+    const name = renderNameTemplate(
+      '{keyword}',
+      { ...tokens, keyword: 'dress dress red dress' },
+      { policy: DEFAULT_SLUG_POLICY }
+    );
+    expect(name.split('-').filter((word) => word === 'dress')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,140 @@
+// 文件名模板：用 {keyword}、{index:3}、{sku}、{width}x{height} 等占位符组合 SEO 文件名
+
+import { applySlugPolicy, stripChineseStopWords, type SlugPolicy } from './slug';
+
+// 模板中可用的占位符取值；缺失的值渲染为空，多余的连接符会被合并
+export interface NameTokens {
+  keyword: string;
+  index: number; // 序号（已加上起始编号）
+  indexWidth?: number; // {index} 未指定位数时的补零位数，默认 2
+  color?: string;
+  material?: string;
+  sku?: string;
+  width?: number;
+  height?: number;
+  original: string; // 原始文件名（含扩展名）
+  date: Date;
+}
+
+// 渲染选项
+export interface RenderOptions {
+  convert?: (text: string) => string; // 清洗前处理文字，用于把中文转写为拼音或英文
+  policy?: SlugPolicy; // 关键词（手动填写或 AI 识别）的精简规则
+}
+
+export const DEFAULT_INDEX_WIDTH = 2;
+
+export const DEFAULT_NAME_TEMPLATE = '{keyword}-{index}';
+
+export const NAME_TOKENS = [
+  'keyword',
+  'index',
+  'index:3',
+  'color',
+  'material',
+  'sku',
+  'width',
+  'height',
+  'original',
+  'date'
+] as const;
+
+const TOKEN_PATTERN = /\{([a-z]+)(?::(\d+))?\}/gi;
+
+// {width}x{height} 尺寸组合：尺寸未知（如预分析尚未完成）时整组去掉，避免留下孤立的 "x"
+const DIMENSIONS_PATTERN = /\{width\}\s*x\s*\{height\}/gi;
+
+/**
+ * 清洗为文件名片段：小写，只保留字母、数字、中文和连字符，空白转为连字符
+ */
+export const sanitizeKeyword = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9\u4e00-\u9fa5\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 关键词转为文件名片段：去掉中文停用词、转写、清洗，再按规则精简
+ */
+function keywordSlug(keyword: string, { convert, policy }: RenderOptions): string {
+  const text = policy?.removeStopWords ? stripChineseStopWords(keyword) : keyword;
+  const slug = sanitizeKeyword(convert ? convert(text) : text);
+  return policy ? applySlugPolicy(slug, policy) : slug;
+}
+
+/**
+ * 单个占位符的取值，未知占位符返回 null
+ */
+function resolveToken(
+  name: string,
+  arg: string | undefined,
+  tokens: NameTokens,
+  options: RenderOptions = {}
+): string | null {
+  switch (name.toLowerCase()) {
+    case 'keyword':
+      return keywordSlug(tokens.keyword, options) || 'product';
+    case 'index':
+      return String(tokens.index).padStart(arg ? Number(arg) : tokens.indexWidth ?? DEFAULT_INDEX_WIDTH, '0');
+    case 'color':
+      return sanitizeKeyword(tokens.color ?? '');
+    case 'material':
+      return sanitizeKeyword(tokens.material ?? '');
+    case 'sku':
+      return sanitizeKeyword(tokens.sku ?? '');
+    case 'width':
+      return tokens.width ? String(tokens.width) : '';
+    case 'height':
+      return tokens.height ? String(tokens.height) : '';
+    case 'original':
+      return sanitizeKeyword(tokens.original.replace(/\.[^.]+$/, '').replace(/[_.]+/g, ' '));
+    case 'date':
+      return formatDate(tokens.date);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 模板是否包含序号占位符
+ */
+export const hasIndexToken = (template: string) => /\{index(?::\d+)?\}/i.test(template.trim() || DEFAULT_NAME_TEMPLATE);
+
+/**
+ * 模板中无法识别的占位符，用于在界面上提示
+ */
+export function findUnknownTokens(template: string): string[] {
+  const unknown: string[] = [];
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (resolveToken(match[1], match[2], { keyword: '', index: 1, original: '', date: new Date() }) === null) {
+      unknown.push(match[0]);
+    }
+  }
+  return unknown;
+}
+
+/**
+ * 渲染模板为文件名（不含扩展名）。
+ * 模板中的文字同样会被清洗，取值为空的占位符两侧多余的连接符会被合并或去掉，
+ * 尺寸未知时 {width}x{height} 整组去掉
+ */
+export function renderNameTemplate(template: string, tokens: NameTokens, options: RenderOptions = {}): string {
+  const rendered = (template.trim() || DEFAULT_NAME_TEMPLATE)
+    .replace(DIMENSIONS_PATTERN, (match) => (tokens.width && tokens.height ? match : ''))
+    .replace(
+      TOKEN_PATTERN,
+      (match, name: string, arg: string | undefined) => resolveToken(name, arg, tokens, options) ?? match
+    );
+  const name = (options.convert ? options.convert(rendered) : rendered)
+    .toLowerCase()
+    .replace(/[^a-z0-9\u4e00-\u9fa5\s_-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/([-_])[-_]+/g, '$1')
+    .replace(/^[-_]+|[-_]+$/g, '');
+  return name || 'product';
+}
@@ -0,0 +1,84 @@
+// 输出格式：检测浏览器 canvas 可编码的格式，并在不支持时回退
+
+import { canvasToBlob, createCanvas } from './canvas';
+
+export type OutputFormat = 'keep' | 'jpeg' | 'webp' | 'avif';
+
+export const formatToMime: Record<Exclude<OutputFormat, 'keep'>, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+export const mimeToExt: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif'
+};
+
+// 回退顺序：AVIF → WebP → JPEG（JPEG 所有浏览器都支持）
+const fallbackChain: Record<string, string[]> = {
+  'image/avif': ['image/avif', 'image/webp', 'image/jpeg'],
+  'image/webp': ['image/webp', 'image/jpeg'],
+  'image/png': ['image/png'],
+  'image/jpeg': ['image/jpeg']
+};
+
+const CANDIDATE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+let encodableTypesPromise: Promise<Set<string>> | null = null;
+
+/**
+ * 检测画布实际能编码的格式（主线程和 Worker 中均可调用）。
+ * 不支持的格式浏览器会静默返回 PNG，因此以返回 Blob 的 type 为准。
+ */
+export function detectEncodableTypes(): Promise<Set<string>> {
+  if (encodableTypesPromise) return encodableTypesPromise;
+
+  encodableTypesPromise = (async () => {
+    const supported = new Set<string>(['image/jpeg', 'image/png']);
+    const canvas = createCanvas(1, 1);
+
+    for (const type of CANDIDATE_TYPES) {
+      const blob = await canvasToBlob(canvas, type, 0.5).catch(() => null);
+      if (blob?.type === type) supported.add(type);
+    }
+    return supported;
+  })();
+
+  return encodableTypesPromise;
+}
+
+/**
+ * 根据用户选择的格式和输入格式，得到本次实际使用的输出 MIME 类型
+ */
+export function resolveOutputType(
+  format: OutputFormat,
+  inputType: string,
+  supported: Set<string>
+): string {
+  let requested: string;
+  if (format !== 'keep') {
+    requested = formatToMime[format];
+  } else if (inputType === 'image/gif') {
+    // 静态 GIF 无法用画布编码，改用同样支持透明的 PNG
+    requested = 'image/png';
+  } else {
+    requested = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'].includes(inputType)
+      ? inputType
+      : 'image/jpeg';
+  }
+
+  const chain = fallbackChain[requested] || ['image/jpeg'];
+  return chain.find((type) => supported.has(type)) || 'image/jpeg';
+}
+
+/**
+ * 获取回退链中的下一个格式，编码结果与请求不符时使用
+ */
+export function nextFallbackType(type: string): string | null {
+  const chain = fallbackChain[type] || [];
+  return chain[1] ?? (type === 'image/jpeg' ? null : 'image/jpeg');
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGifFrames, GifEncoder, isGif, parseGif } from './gif';
+
+const COLORS = [
+  [255, 0, 0],
+  [0, 128, 0],
+  [0, 0, 255],
+  [255, 255, 255],
+  [32, 32, 32],
+  [200, 160, 40]
+];
+
+// 伪随机色块，足以填满 4096 项的 LZW 字典并触发清除码
+const createFrame = (width: number, height: number, seed: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = seed;
+  for (let p = 0; p < width * height; p += 1) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    data.set([...COLORS[state % COLORS.length], 255], p * 4);
+  }
+  return data;
+};
+
+const encode = async (frames: Uint8ClampedArray[], width: number, height: number, transparent = false) => {
+  const encoder = new GifEncoder(width, height, { loopCount: 0, transparent });
+  frames.forEach((frame) => encoder.addFrame(frame, 100));
+  return new Uint8Array(await encoder.finish().arrayBuffer());
+};
+
+const decode = (bytes: Uint8Array) => Array.from(decodeGifFrames(parseGif(bytes)), (frame) => frame.data.slice());
+
+describe('GIF encoder and decoder', () => {
+  it('round-trips a frame through LZW', async () => {
+    const frame = createFrame(80, 60, 1);
+    const bytes = await encode([frame], 80, 60);
+    expect(isGif(bytes)).toBe(true);
+    const gif = parseGif(bytes);
+    expect(gif).toMatchObject({ width: 80, height: 60, loopCount: 0 });
+    expect(decode(bytes)).toEqual([frame]);
+  });
+
+  it('composes frames written as differences', async () => {
+    const first = createFrame(40, 30, 2);
+    const second = first.slice();
+    second.set(createFrame(4, 4, 3).subarray(0, 16), 0); // 只改变前 4 个像素
+    const third = second.slice();
+    const bytes = await encode([first, second, third], 40, 30);
+    expect(parseGif(bytes).frames.map((frame) => frame.delay)).toEqual([100, 100, 100]);
+    expect(decode(bytes)).toEqual([first, second, third]);
+  });
+
+  it('keeps transparent pixels transparent', async () => {
+    const frame = createFrame(16, 16, 4);
+    for (let p = 0; p < 16; p += 1) frame[p * 4 + 3] = 0;
+    const [decoded] = decode(await encode([frame], 16, 16, true));
+    for (let p = 0; p < 16; p += 1) expect(decoded[p * 4 + 3]).toBe(0);
+    expect(decoded.subarray(64)).toEqual(frame.subarray(64));
+  });
+});
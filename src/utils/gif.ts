@@ -0,0 +1,515 @@
+// GIF 编解码：逐帧解码为合成后的完整画面；编码时每帧单独量化调色板，
+// 不透明动图只写入与上一帧相比发生变化的区域（未变化的像素设为透明），显著减小体积
+
+import { quantize } from './pngQuant';
+
+// 帧记录：解析时只记录位置，解码时再解压，避免一次性占用大量内存
+interface GifFrameRecord {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  palette: Uint8Array | null; // 局部颜色表，为 null 时使用全局颜色表
+  minCodeSize: number;
+  data: Uint8Array; // 拼接后的 LZW 数据
+  delay: number; // 毫秒
+  disposal: number;
+  transparentIndex: number; // -1 表示没有透明色
+}
+
+export interface GifFile {
+  width: number;
+  height: number;
+  loopCount: number; // 0 表示无限循环，否则为总播放次数
+  frames: GifFrameRecord[];
+  globalPalette: Uint8Array | null;
+}
+
+// 解码出的一帧：data 为整张画布的 RGBA，会被下一帧复用，需要保留时请复制
+export interface GifFrame {
+  data: Uint8ClampedArray;
+  delay: number;
+}
+
+export interface GifEncoderOptions {
+  loopCount: number; // 0 表示无限循环，否则为总播放次数
+  transparent: boolean; // 画面含透明区域：每帧完整写入，播放下一帧前清空
+  colors?: number; // 每帧调色板颜色数，默认 256
+}
+
+const MAX_CODES = 4096;
+const MIN_DELAY = 20; // 多数浏览器把小于 20ms 的延迟按 100ms 播放
+const DIFF_TOLERANCE = 48; // 与上一帧源画面的 RGB 平方距离不超过该值视为未变化
+
+const DISPOSE_NONE = 1;
+const DISPOSE_BACKGROUND = 2;
+const DISPOSE_PREVIOUS = 3;
+
+/**
+ * 读取连续的数据子块（长度前缀，0 结束），返回拼接后的数据和结束位置
+ */
+function readSubBlocks(bytes: Uint8Array, offset: number): { data: Uint8Array; end: number } {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    const size = bytes[offset];
+    parts.push(bytes.subarray(offset + 1, offset + 1 + size));
+    total += size;
+    offset += size + 1;
+  }
+  const data = new Uint8Array(total);
+  let pos = 0;
+  parts.forEach((part) => {
+    data.set(part, pos);
+    pos += part.length;
+  });
+  return { data, end: offset + 1 };
+}
+
+export const isGif = (bytes: Uint8Array) =>
+  bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46; // "GIF"
+
+/**
+ * 解析 GIF 结构（不解压像素数据）
+ */
+export function parseGif(bytes: Uint8Array): GifFile {
+  if (!isGif(bytes)) throw new Error('Not a GIF file');
+  const u16 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+  const width = u16(6);
+  const height = u16(8);
+  const screenFlags = bytes[10];
+  let offset = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (screenFlags & 0x80) {
+    const size = 3 * (1 << ((screenFlags & 7) + 1));
+    globalPalette = bytes.subarray(offset, offset + size);
+    offset += size;
+  }
+
+  const frames: GifFrameRecord[] = [];
+  let loopCount = 1;
+  let delay = 0;
+  let disposal = 0;
+  let transparentIndex = -1;
+
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x3b) break; // 文件结束
+
+    if (block === 0x21) {
+      const label = bytes[offset + 1];
+      if (label === 0xf9) {
+        // 图形控制扩展：处置方式、延迟、透明色
+        const flags = bytes[offset + 3];
+        disposal = (flags >> 2) & 7;
+        delay = u16(offset + 4) * 10;
+        transparentIndex = flags & 1 ? bytes[offset + 6] : -1;
+      }
+      const isNetscape =
+        label === 0xff &&
+        String.fromCharCode(...bytes.subarray(offset + 3, offset + 14)) === 'NETSCAPE2.0';
+      const { data, end } = readSubBlocks(bytes, offset + 2);
+      if (isNetscape && data.length >= 14 && data[11] === 1) {
+        // 循环次数为重复次数，0 表示无限
+        const repeats = data[12] | (data[13] << 8);
+        loopCount = repeats === 0 ? 0 : repeats + 1;
+      }
+      offset = end;
+      continue;
+    }
+
+    if (block === 0x2c) {
+      const start = offset;
+      const flags = bytes[start + 9];
+      offset += 10;
+      let palette: Uint8Array | null = null;
+      if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 7) + 1));
+        palette = bytes.subarray(offset, offset + size);
+        offset += size;
+      }
+      const minCodeSize = bytes[offset];
+      const { data, end } = readSubBlocks(bytes, offset + 1);
+      frames.push({
+        left: u16(start + 1),
+        top: u16(start + 3),
+        width: u16(start + 5),
+        height: u16(start + 7),
+        interlaced: (flags & 0x40) !== 0,
+        palette,
+        minCodeSize,
+        data,
+        delay,
+        disposal,
+        transparentIndex
+      });
+      offset = end;
+      delay = 0;
+      disposal = 0;
+      transparentIndex = -1;
+      continue;
+    }
+
+    break; // 无法识别的块：忽略其后的内容
+  }
+
+  return { width, height, loopCount, frames, globalPalette };
+}
+
+/**
+ * LZW 解压为颜色索引
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const prefix = new Uint16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const stack = new Uint8Array(MAX_CODES + 1);
+  for (let i = 0; i < clear; i += 1) suffix[i] = i;
+
+  let codeSize = minCodeSize + 1;
+  let next = clear + 2;
+  let old = -1;
+  let first = 0;
+  let datum = 0;
+  let bits = 0;
+  let pos = 0;
+  let outPos = 0;
+
+  while (outPos < pixelCount) {
+    while (bits < codeSize) {
+      if (pos >= data.length) return out;
+      datum |= data[pos] << bits;
+      pos += 1;
+      bits += 8;
+    }
+    let code = datum & ((1 << codeSize) - 1);
+    datum >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = clear + 2;
+      old = -1;
+      continue;
+    }
+    if (code === eoi) break;
+    if (old === -1) {
+      if (code >= clear) continue;
+      out[outPos] = code;
+      outPos += 1;
+      old = code;
+      first = code;
+      continue;
+    }
+
+    const current = code;
+    let top = 0;
+    if (code >= next) {
+      // 编码器刚加入的码：前一个串 + 其首字符
+      stack[top] = first;
+      top += 1;
+      code = old;
+    }
+    while (code >= clear) {
+      stack[top] = suffix[code];
+      top += 1;
+      code = prefix[code];
+    }
+    first = suffix[code];
+    stack[top] = first;
+    top += 1;
+
+    if (next < MAX_CODES) {
+      prefix[next] = old;
+      suffix[next] = first;
+      next += 1;
+      if (next === 1 << codeSize && codeSize < 12) codeSize += 1;
+    }
+    old = current;
+    while (top > 0 && outPos < pixelCount) {
+      top -= 1;
+      out[outPos] = stack[top];
+      outPos += 1;
+    }
+  }
+  return out;
+}
+
+// 隔行扫描的行顺序：依次为每 8 行的第 0 行、每 8 行的第 4 行、每 4 行的第 2 行、每 2 行的第 1 行
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2]
+  ].forEach(([start, step]) => {
+    for (let y = start; y < height; y += step) rows.push(y);
+  });
+  return rows;
+}
+
+/**
+ * 逐帧解码，按处置方式合成完整画面
+ */
+export function* decodeGifFrames(gif: GifFile): Generator<GifFrame> {
+  const { width, height } = gif;
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  let restore: Uint8ClampedArray | null = null;
+  let previous: GifFrameRecord | null = null;
+
+  for (const frame of gif.frames) {
+    // 先处理上一帧的处置方式
+    if (previous?.disposal === DISPOSE_BACKGROUND) {
+      for (let y = previous.top; y < Math.min(height, previous.top + previous.height); y += 1) {
+        const start = (y * width + previous.left) * 4;
+        const end = (y * width + Math.min(width, previous.left + previous.width)) * 4;
+        canvas.fill(0, start, end);
+      }
+    } else if (previous?.disposal === DISPOSE_PREVIOUS && restore) {
+      canvas.set(restore);
+    }
+    restore = frame.disposal === DISPOSE_PREVIOUS ? canvas.slice() : null;
+
+    const palette = frame.palette ?? gif.globalPalette;
+    const indices = lzwDecode(frame.data, frame.minCodeSize, frame.width * frame.height);
+    const rows = frame.interlaced ? interlacedRows(frame.height) : null;
+    if (palette) {
+      for (let row = 0; row < frame.height; row += 1) {
+        const y = frame.top + (rows ? rows[row] : row);
+        if (y >= height) continue;
+        for (let col = 0; col < frame.width; col += 1) {
+          const x = frame.left + col;
+          if (x >= width) continue;
+          const index = indices[row * frame.width + col];
+          if (index === frame.transparentIndex) continue;
+          const p = (y * width + x) * 4;
+          canvas[p] = palette[index * 3];
+          canvas[p + 1] = palette[index * 3 + 1];
+          canvas[p + 2] = palette[index * 3 + 2];
+          canvas[p + 3] = 255;
+        }
+      }
+    }
+
+    yield { data: canvas, delay: frame.delay };
+    previous = frame;
+  }
+}
+
+/**
+ * LZW 压缩颜色索引，返回 GIF 数据子块
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  const table = new Map<number, number>();
+
+  const bytes: number[] = [];
+  let datum = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    datum |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(datum & 0xff);
+      datum >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i += 1) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (next === MAX_CODES) {
+      emit(clear);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+    } else {
+      // 解码端在加入会超出当前位宽的码之前增加位宽，编码端保持同步
+      if (next >= 1 << codeSize) codeSize += 1;
+      table.set(key, next);
+      next += 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (bits > 0) bytes.push(datum & 0xff);
+
+  // 拆分为最多 255 字节的子块
+  const blocks = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let pos = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const chunk = bytes.slice(i, i + 255);
+    blocks[pos] = chunk.length;
+    blocks.set(chunk, pos + 1);
+    pos += chunk.length + 1;
+  }
+  blocks[pos] = 0;
+  return blocks;
+}
+
+/**
+ * 逐帧写入的 GIF 编码器
+ */
+export class GifEncoder {
+  private width: number;
+  private height: number;
+  private options: GifEncoderOptions;
+  private parts: Uint8Array[] = [];
+  private previous: Uint8ClampedArray; // 上一帧的源画面，用于计算帧差
+  private frameCount = 0;
+
+  constructor(width: number, height: number, options: GifEncoderOptions) {
+    this.width = width;
+    this.height = height;
+    this.options = options;
+    this.previous = new Uint8ClampedArray(width * height * 4);
+
+    const header = new Uint8Array(13);
+    header.set([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+    header.set([width & 0xff, width >> 8, height & 0xff, height >> 8, 0, 0, 0], 6);
+    this.parts.push(header);
+
+    // NETSCAPE2.0 扩展：重复次数，播放一次时省略
+    if (options.loopCount !== 1) {
+      const repeats = options.loopCount === 0 ? 0 : options.loopCount - 1;
+      const app = new Uint8Array(19);
+      app.set([0x21, 0xff, 0x0b]);
+      app.set([...'NETSCAPE2.0'].map((c) => c.charCodeAt(0)), 3);
+      app.set([0x03, 0x01, repeats & 0xff, repeats >> 8, 0x00], 14);
+      this.parts.push(app);
+    }
+  }
+
+  /**
+   * 写入一帧（整张画布的 RGBA）
+   */
+  addFrame(data: Uint8ClampedArray, delay: number): void {
+    const { width, height, previous } = this;
+    const full = this.options.transparent || this.frameCount === 0;
+
+    // 变化区域的包围盒
+    let left = 0;
+    let top = 0;
+    let right = width;
+    let bottom = height;
+    const changed = new Uint8Array(width * height);
+    if (full) {
+      changed.fill(1);
+    } else {
+      left = width;
+      top = height;
+      right = 0;
+      bottom = 0;
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          const p = y * width + x;
+          const i = p * 4;
+          const distance =
+            (data[i] - previous[i]) ** 2 +
+            (data[i + 1] - previous[i + 1]) ** 2 +
+            (data[i + 2] - previous[i + 2]) ** 2;
+          if (distance <= DIFF_TOLERANCE) continue;
+          changed[p] = 1;
+          if (x < left) left = x;
+          if (x >= right) right = x + 1;
+          if (y < top) top = y;
+          if (y >= bottom) bottom = y + 1;
+        }
+      }
+      // 与上一帧相同：写入 1×1 的透明帧以保留延迟
+      if (right === 0) {
+        left = 0;
+        top = 0;
+        right = 1;
+        bottom = 1;
+      }
+    }
+
+    // 区域内的像素：未变化或透明度低于一半的设为完全透明，其余为不透明
+    const w = right - left;
+    const h = bottom - top;
+    const region = new Uint8ClampedArray(w * h * 4);
+    for (let y = 0; y < h; y += 1) {
+      for (let x = 0; x < w; x += 1) {
+        const p = (top + y) * width + left + x;
+        const o = (y * w + x) * 4;
+        if (!changed[p] || data[p * 4 + 3] < 128) continue;
+        region[o] = data[p * 4];
+        region[o + 1] = data[p * 4 + 1];
+        region[o + 2] = data[p * 4 + 2];
+        region[o + 3] = 255;
+      }
+    }
+
+    // 抖动的噪点会让相邻帧处处不同，抵消帧差带来的压缩收益
+    const { palette, indices } = quantize(region, w, h, {
+      colors: this.options.colors ?? 256,
+      dither: false
+    });
+    const transparentIndex = palette.findIndex((c) => c[3] === 0);
+
+    // 未变化的像素沿用之前写入的颜色，只有写入的像素更新为当前帧
+    for (let p = 0; p < changed.length; p += 1) {
+      if (changed[p]) previous.set(data.subarray(p * 4, p * 4 + 4), p * 4);
+    }
+
+    // 调色板长度需为 2 的幂
+    const bitsPerIndex = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length))));
+    const table = new Uint8Array(3 * (1 << bitsPerIndex));
+    palette.forEach((c, i) => table.set(c.slice(0, 3), i * 3));
+
+    const control = new Uint8Array(8);
+    const disposal = this.options.transparent ? DISPOSE_BACKGROUND : DISPOSE_NONE;
+    const centiseconds = Math.round(Math.max(MIN_DELAY, delay) / 10);
+    control.set([
+      0x21,
+      0xf9,
+      0x04,
+      (disposal << 2) | (transparentIndex >= 0 ? 1 : 0),
+      centiseconds & 0xff,
+      centiseconds >> 8,
+      Math.max(0, transparentIndex),
+      0x00
+    ]);
+
+    const descriptor = new Uint8Array(10);
+    descriptor.set([
+      0x2c,
+      left & 0xff,
+      left >> 8,
+      top & 0xff,
+      top >> 8,
+      w & 0xff,
+      w >> 8,
+      h & 0xff,
+      h >> 8,
+      0x80 | (bitsPerIndex - 1) // 局部颜色表
+    ]);
+
+    const minCodeSize = Math.max(2, bitsPerIndex);
+    this.parts.push(control, descriptor, table, new Uint8Array([minCodeSize]), lzwEncode(indices, minCodeSize));
+    this.frameCount += 1;
+  }
+
+  finish(): Blob {
+    return new Blob([...this.parts, new Uint8Array([0x3b])] as BlobPart[], { type: 'image/gif' });
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { readHeifColor } from './heic';
+
+const u32 = (value: number) => [(value >>> 24) & 255, (value >>> 16) & 255, (value >>> 8) & 255, value & 255];
+const u16 = (value: number) => [(value >> 8) & 255, value & 255];
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+const box = (type: string, ...body: number[][]) => {
+  const content = body.flat();
+  return [...u32(content.length + 8), ...ascii(type), ...content];
+};
+const fullBox = (type: string, ...body: number[][]) => box(type, [0, 0, 0, 0], ...body);
+
+const nclx = (primaries: number, transfer: number) =>
+  box('colr', ascii('nclx'), u16(primaries), u16(transfer), u16(1), [0x80]);
+
+const heif = (properties: number[][], ipma: number[]) =>
+  new Uint8Array([
+    ...box('ftyp', ascii('heic'), u32(0), ascii('mif1')),
+    ...fullBox(
+      'meta',
+      fullBox('pitm', u16(1)),
+      box('iprp', box('ipco', ...properties), ipma)
+    )
+  ]);
+
+describe('readHeifColor', () => {
+  it('reads the nclx colour of the primary item', () => {
+    // 项 1（主图）关联属性 2，项 2（缩略图）关联属性 1
+    const ipma = fullBox('ipma', u32(2), u16(2), [1, 0x81], u16(1), [1, 0x82]);
+    expect(readHeifColor(heif([nclx(1, 13), nclx(12, 13)], ipma))).toEqual({
+      type: 'nclx',
+      primaries: 12,
+      transfer: 13
+    });
+  });
+
+  it('prefers an embedded ICC profile over nclx', () => {
+    const ipma = fullBox('ipma', u32(1), u16(1), [2, 0x81, 0x82]);
+    const color = readHeifColor(heif([nclx(12, 13), box('colr', ascii('prof'), [1, 2, 3])], ipma));
+    expect(color).toEqual({ type: 'icc', profile: new Uint8Array([1, 2, 3]) });
+  });
+
+  it('returns null without colour information', () => {
+    expect(readHeifColor(new Uint8Array(box('ftyp', ascii('heic'))))).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+// HEIC / HEIF 解码：Chrome、Firefox 无法原生解码 iPhone 照片，
+// 使用随应用打包的 libheif WASM 解码器在本地完成，无需联网
+
+// ISO BMFF ftyp 中表示 HEIF 图片的品牌
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * 根据 MIME 类型或扩展名判断是否为 HEIC（部分系统上 HEIC 文件的 type 为空）
+ */
+export const isHeicFile = (file: File) =>
+  isHeifType(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+export const isHeifType = (type: string) => ['image/heic', 'image/heif'].includes(type);
+
+/**
+ * 文件的实际 MIME 类型：type 为空的 HEIC 文件按扩展名识别为 image/heic，其他空类型按 JPEG 处理
+ */
+export const resolveSourceType = (file: File) =>
+  isHeicFile(file) ? (isHeifType(file.type) ? file.type : 'image/heic') : file.type || 'image/jpeg';
+
+/**
+ * 通过文件头判断是否为 HEIF 容器
+ */
+export async function isHeifBlob(blob: Blob): Promise<boolean> {
+  const header = new Uint8Array(await blob.slice(0, 12).arrayBuffer());
+  if (header.length < 12) return false;
+  const box = String.fromCharCode(...header.slice(4, 8));
+  const brand = String.fromCharCode(...header.slice(8, 12));
+  return box === 'ftyp' && HEIF_BRANDS.includes(brand);
+}
+
+/**
+ * 解码 HEIC 为可绘制到画布的位图。解码器较大，按需加载
+ */
+export async function decodeHeic(blob: Blob): Promise<ImageBitmap> {
+  const { default: decode } = await import('heic-decode');
+  const buffer = new Uint8Array(await blob.arrayBuffer());
+  const { width, height, data } = await decode({ buffer });
+  return createImageBitmap(new ImageData(new Uint8ClampedArray(data), width, height));
+}
+
+// HEIF 主图的色彩信息（colr 属性）：nclx 为 H.273 编码参数，icc 为内嵌配置文件
+export type HeifColor =
+  | { type: 'nclx'; primaries: number; transfer: number }
+  | { type: 'icc'; profile: Uint8Array };
+
+type IsoBox = { type: string; start: number; end: number };
+
+const boxType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+/**
+ * 列出 [start, end) 范围内的 ISO BMFF 子盒（start 指向盒体起点，即 8 字节头之后）
+ */
+function readBoxes(bytes: Uint8Array, view: DataView, from: number, to: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let offset = from;
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > to) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header || offset + size > to) break;
+    boxes.push({ type: boxType(bytes, offset + 4), start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * 读取主图关联的 colr 属性（meta → iprp → ipco / ipma），同时有 ICC 和 nclx 时优先 ICC；
+ * 没有色彩信息时返回 null
+ */
+export function readHeifColor(bytes: Uint8Array): HeifColor | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const meta = readBoxes(bytes, view, 0, bytes.length).find((box) => box.type === 'meta');
+  if (!meta) return null;
+  const metaBoxes = readBoxes(bytes, view, meta.start + 4, meta.end); // meta 为 FullBox
+  const iprp = metaBoxes.find((box) => box.type === 'iprp');
+  if (!iprp) return null;
+  const iprpBoxes = readBoxes(bytes, view, iprp.start, iprp.end);
+  const ipco = iprpBoxes.find((box) => box.type === 'ipco');
+  if (!ipco) return null;
+  const properties = readBoxes(bytes, view, ipco.start, ipco.end);
+
+  // 主图的属性序号（从 1 开始）；缺少 pitm / ipma 时使用全部属性
+  let associated = properties;
+  const pitm = metaBoxes.find((box) => box.type === 'pitm');
+  const ipma = iprpBoxes.find((box) => box.type === 'ipma');
+  if (pitm && ipma) {
+    const primaryId = bytes[pitm.start] === 0 ? view.getUint16(pitm.start + 4) : view.getUint32(pitm.start + 4);
+    const version = bytes[ipma.start];
+    const wideIndex = (bytes[ipma.start + 3] & 1) === 1;
+    let offset = ipma.start + 8;
+    const entryCount = view.getUint32(ipma.start + 4);
+    for (let i = 0; i < entryCount && offset < ipma.end; i += 1) {
+      const itemId = version < 1 ? view.getUint16(offset) : view.getUint32(offset);
+      offset += version < 1 ? 2 : 4;
+      const count = bytes[offset];
+      offset += 1;
+      const indexes: number[] = [];
+      for (let j = 0; j < count; j += 1) {
+        indexes.push(wideIndex ? view.getUint16(offset) & 0x7fff : bytes[offset] & 0x7f);
+        offset += wideIndex ? 2 : 1;
+      }
+      if (itemId === primaryId) {
+        associated = indexes.map((index) => properties[index - 1]).filter(Boolean);
+        break;
+      }
+    }
+  }
+
+  const colors = associated
+    .filter((box) => box.type === 'colr' && box.end - box.start >= 4)
+    .map((box): HeifColor | null => {
+      const colorType = boxType(bytes, box.start);
+      if (colorType === 'prof' || colorType === 'rICC') {
+        return { type: 'icc', profile: bytes.slice(box.start + 4, box.end) };
+      }
+      if (colorType === 'nclx' && box.end - box.start >= 8) {
+        return { type: 'nclx', primaries: view.getUint16(box.start + 4), transfer: view.getUint16(box.start + 6) };
+      }
+      return null;
+    })
+    .filter((color): color is HeifColor => color !== null);
+  return colors.find((color) => color.type === 'icc') ?? colors[0] ?? null;
+}
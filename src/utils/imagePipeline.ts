@@ -0,0 +1,541 @@
+// 图片处理流水线：解码（含 HEIC）→ 裁剪/缩放 → 按预算编码 → 响应式变体；动图逐帧处理后重新封装
+// 不依赖 DOM，可在 Worker（OffscreenCanvas）和主线程中运行
+
+import { canvasToBlob, createCanvas, get2dContext, type AnyCanvas } from './canvas';
+import { encodeWithinBudget } from './compression';
+import {
+  detectEncodableTypes,
+  formatToMime,
+  nextFallbackType,
+  resolveOutputType,
+  type OutputFormat
+} from './formats';
+import { decodeHeic, isHeifBlob, readHeifColor } from './heic';
+import {
+  embedJpegIccProfile,
+  extractExif,
+  extractIccProfile,
+  readJpegSize,
+  readOrientation,
+  tagSrgb
+} from './metadata';
+import {
+  buildSrgbProfile,
+  buildSwappedProfile,
+  convertToSrgb,
+  parseIccProfile,
+  profileFromNclx,
+  type IccProfile
+} from './colorProfile';
+import { computeDrawRect, type FitMode, type ResizeTarget } from './resize';
+import {
+  canvasHasAlpha,
+  flattenAlpha,
+  resolveBackgroundColor,
+  supportsAlpha,
+  type FlattenOptions,
+  type PadBackground
+} from './background';
+import { findSubjectBox, type SubjectAnalysis, type SubjectBox } from './smartCrop';
+import { computePerceptualHash, type ImageFingerprint } from './perceptualHash';
+import { auditBitmap, type ImageAudit } from './qualityAudit';
+import { createSsimScorer } from './ssim';
+import { encodeQuantizedPng, supportsPngQuantization } from './pngQuant';
+import { encodeJpeg, type JpegEncoderOptions } from './jpegEncoder';
+import { drawWatermark, type WatermarkOptions } from './watermark';
+import {
+  animationFormatToMime,
+  isAnimatedImage,
+  muxAnimatedWebp,
+  openAnimation,
+  type AnimationFormat,
+  type AnimationSource
+} from './animation';
+import { GifEncoder } from './gif';
+
+export interface PipelineOptions {
+  aspectRatio: number | null; // 输出宽高比（宽 / 高），null 表示保持原始比例
+  byteBudgetKb: number;
+  minSsim: number; // 感知质量下限，0 表示只记录评分不限制
+  resize: ResizeTarget | null;
+  fit: FitMode;
+  focus: SubjectBox | null; // 智能裁剪的主体区域，为 null 时在流水线中检测
+  padBackground: PadBackground;
+  flatten: FlattenOptions; // 输出格式不支持透明时的背景
+  outputFormat: OutputFormat;
+  pngColors: number; // PNG 调色板颜色数，0 表示无损
+  pngDither: boolean;
+  jpegEncoder: JpegEncoderOptions;
+  watermark: WatermarkOptions | null; // 为 null 表示不加水印
+  variantWidths: number[]; // 为空表示不生成响应式变体
+  animationFormat: AnimationFormat; // 动图的输出格式
+}
+
+export interface PipelineVariant {
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+export interface PipelineResult {
+  blob: Blob;
+  outputType: string;
+  requestedType: string;
+  quality?: number;
+  colorProfile?: string; // 已转换为 sRGB 的源色彩配置（如 Display P3），源图为 sRGB 时为 undefined
+  unsupportedProfile?: string; // 无法转换为 sRGB 的源色彩配置（如 LUT 型、CMYK），输出颜色可能偏差
+  alphaDiscarded: boolean; // 源图的透明区域因输出格式不支持透明而被合成到背景上
+  ssim?: number; // 输出与绘制画布的 SSIM，无损 PNG 为 undefined
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  frameCount?: number; // 动图的帧数，静态图为 undefined
+  jpegFallback?: boolean; // 所选 JPEG 编码器不可用，已改用浏览器编码器
+  variants: PipelineVariant[];
+}
+
+// 导入时的预分析结果：主体区域、感知哈希指纹和质量检查，均基于解码后的原图
+export interface SourceAnalysis {
+  subject: SubjectAnalysis;
+  fingerprint: ImageFingerprint;
+  audit: ImageAudit;
+  animated: boolean; // 多帧动图，导出为 animationFormat 而非静态格式
+}
+
+export type ProgressFn = (progress: number) => void; // 0-100
+
+// 动图逐帧编码为 WebP 时的固定质量（逐帧二分查找预算的代价过高）
+const ANIMATION_QUALITY = 0.8;
+
+// 浏览器无法解码时抛出，由主线程改用 <img> 解码后重试
+export class DecodeError extends Error {
+  constructor(message = 'Image decode failed') {
+    super(message);
+    this.name = 'DecodeError';
+  }
+}
+
+/**
+ * 在主线程用 <img> 解码（部分格式 createImageBitmap 不支持，但 <img> 可以）
+ */
+export async function decodeWithImageElement(file: Blob): Promise<ImageBitmap> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = (err) => reject(err);
+      image.src = url;
+    });
+    return await createImageBitmap(img);
+  } catch {
+    throw new DecodeError();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// EXIF 方向 2-8 对应的画布变换（w、h 为编码尺寸）
+const orientationTransforms: Record<number, (w: number, h: number) => DOMMatrix2DInit> = {
+  2: (w) => ({ a: -1, b: 0, c: 0, d: 1, e: w, f: 0 }),
+  3: (w, h) => ({ a: -1, b: 0, c: 0, d: -1, e: w, f: h }),
+  4: (_w, h) => ({ a: 1, b: 0, c: 0, d: -1, e: 0, f: h }),
+  5: () => ({ a: 0, b: 1, c: 1, d: 0, e: 0, f: 0 }),
+  6: (_w, h) => ({ a: 0, b: 1, c: -1, d: 0, e: h, f: 0 }),
+  7: (w, h) => ({ a: 0, b: -1, c: -1, d: 0, e: h, f: w }),
+  8: (w) => ({ a: 0, b: -1, c: 1, d: 0, e: 0, f: w })
+};
+
+/**
+ * 按 EXIF 方向旋转/翻转位图
+ */
+async function orientBitmap(bitmap: ImageBitmap, orientation: number): Promise<ImageBitmap> {
+  const { width, height } = bitmap;
+  const swap = orientation >= 5;
+  const canvas = createCanvas(swap ? height : width, swap ? width : height);
+  const ctx = get2dContext(canvas);
+  ctx.setTransform(orientationTransforms[orientation](width, height));
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return createImageBitmap(canvas);
+}
+
+let convertsToSrgb: Promise<boolean> | null = null;
+
+/**
+ * 检测 createImageBitmap 是否把内嵌配置文件转换为 sRGB（只检测一次）：解码一张标记了红绿原色互换
+ * 配置文件的纯红 JPEG，浏览器转换时得到绿色。无法检测时按会转换处理
+ */
+function browserConvertsToSrgb(): Promise<boolean> {
+  convertsToSrgb ??= (async () => {
+    const canvas = createCanvas(8, 8);
+    const ctx = get2dContext(canvas);
+    ctx.fillStyle = '#ff0000';
+    ctx.fillRect(0, 0, 8, 8);
+    const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 1)).arrayBuffer());
+    const tagged = embedJpegIccProfile(jpeg, buildSwappedProfile());
+    const bitmap = await createImageBitmap(new Blob([tagged as BlobPart], { type: 'image/jpeg' }));
+    ctx.clearRect(0, 0, 8, 8);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const [red, green] = ctx.getImageData(4, 4, 1, 1).data;
+    return green > red;
+  })().catch(() => true);
+  return convertsToSrgb;
+}
+
+export interface DecodedImage {
+  bitmap: ImageBitmap;
+  colorProfile: string | null; // 已转换为 sRGB 的源色彩配置名称
+  unsupportedProfile: string | null; // 浏览器不转换且无法在本地转换的源色彩配置名称
+}
+
+/**
+ * 在本地把位图从源色彩空间转换为 sRGB
+ */
+async function convertBitmapToSrgb(bitmap: ImageBitmap, profile: IccProfile): Promise<ImageBitmap> {
+  const canvas = createCanvas(bitmap.width, bitmap.height);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  convertToSrgb(imageData.data, profile);
+  ctx.putImageData(imageData, 0, 0);
+  return createImageBitmap(canvas);
+}
+
+/**
+ * 浏览器解码：应用 EXIF 方向，保证后续裁剪基于正确朝向的像素；并把内嵌色彩配置转换为 sRGB。
+ * 部分旧浏览器会忽略 imageOrientation，此时宽高未与编码尺寸对调，需要手动旋转
+ */
+async function decodeWithBrowser(source: Blob): Promise<DecodedImage> {
+  const bytes = new Uint8Array(await source.arrayBuffer());
+  const profile = parseIccProfile(await extractIccProfile(bytes).catch(() => null));
+  const wideGamut = profile !== null && !profile.isSrgb;
+  const browserConverts = wideGamut && (await browserConvertsToSrgb());
+  // 本地只能转换矩阵型配置文件，LUT 型（及 CMYK）不转换，由调用方提示颜色可能偏差
+  const convertLocally = wideGamut && !browserConverts && profile.toXyz !== null;
+  const unsupported = wideGamut && !browserConverts && profile.toXyz === null;
+
+  let bitmap = await createImageBitmap(source, {
+    imageOrientation: 'from-image',
+    colorSpaceConversion: convertLocally ? 'none' : 'default'
+  });
+
+  const orientation = readOrientation(extractExif(bytes));
+  if (orientation >= 5) {
+    const encoded = readJpegSize(bytes);
+    const ignored =
+      encoded !== null && encoded.width !== encoded.height && bitmap.width === encoded.width;
+    if (ignored) bitmap = await orientBitmap(bitmap, orientation);
+  }
+
+  if (convertLocally) bitmap = await convertBitmapToSrgb(bitmap, profile);
+  const profileName = wideGamut ? profile.description || 'ICC' : null;
+  return {
+    bitmap,
+    colorProfile: unsupported ? null : profileName,
+    unsupportedProfile: unsupported ? profileName : null
+  };
+}
+
+/**
+ * 解码原始文件：HEIF 容器使用 WASM 解码器，其他格式交给浏览器
+ */
+/**
+ * HEIC 解码器输出未做色彩管理的原始 RGB，按 colr 盒（nclx 或 ICC）在本地转换到 sRGB，
+ * 无法转换时返回 unsupportedProfile 由调用方提示
+ */
+async function decodeHeifSource(source: Blob): Promise<DecodedImage> {
+  const color = readHeifColor(new Uint8Array(await source.arrayBuffer()));
+  const profile =
+    color?.type === 'icc'
+      ? parseIccProfile(color.profile)
+      : color
+        ? profileFromNclx(color.primaries, color.transfer)
+        : null;
+  const bitmap = await decodeHeic(source);
+  if (!profile || profile.isSrgb) return { bitmap, colorProfile: null, unsupportedProfile: null };
+
+  const profileName = profile.description || 'ICC';
+  if (!profile.toXyz) return { bitmap, colorProfile: null, unsupportedProfile: profileName };
+  return {
+    bitmap: await convertBitmapToSrgb(bitmap, profile),
+    colorProfile: profileName,
+    unsupportedProfile: null
+  };
+}
+
+export async function decodeSource(source: Blob): Promise<DecodedImage> {
+  try {
+    if (await isHeifBlob(source)) {
+      return await decodeHeifSource(source);
+    }
+    return await decodeWithBrowser(source);
+  } catch (error) {
+    throw new DecodeError(error instanceof Error ? error.message : undefined);
+  }
+}
+
+/**
+ * 预分析原图：与处理流程相同地解码（HEIC、EXIF 方向、色彩转换）后分析主体区域、
+ * 计算指纹并检查质量。source 为原始文件或已解码的位图；动图只分析第一帧
+ */
+export async function analyzeSource(source: Blob | ImageBitmap): Promise<SourceAnalysis> {
+  const animated =
+    source instanceof Blob && isAnimatedImage(new Uint8Array(await source.arrayBuffer()));
+  const bitmap = source instanceof Blob ? (await decodeSource(source)).bitmap : source;
+  const { width, height } = bitmap;
+  try {
+    return {
+      subject: { box: findSubjectBox(bitmap), width, height },
+      fingerprint: { hash: computePerceptualHash(bitmap), width, height },
+      audit: auditBitmap(bitmap),
+      animated
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * 动图流程：所有帧使用第一帧确定的同一裁剪区域和画布，逐帧绘制后编码为动画 WebP 或 GIF。
+ * 体积预算、SSIM 和响应式变体只适用于静态图
+ */
+async function runAnimationPipeline(
+  animation: AnimationSource,
+  options: PipelineOptions,
+  onProgress: ProgressFn
+): Promise<PipelineResult> {
+  const { width: sourceWidth, height: sourceHeight, frameCount, loopCount } = animation;
+  const supportedTypes = await detectEncodableTypes();
+  const requestedType = animationFormatToMime[options.animationFormat];
+  const outputType =
+    requestedType === 'image/webp' && !supportedTypes.has('image/webp') ? 'image/gif' : requestedType;
+
+  let canvas: AnyCanvas | null = null;
+  let rect: ReturnType<typeof computeDrawRect> | null = null;
+  let background: string | null = null;
+  let gif: GifEncoder | null = null;
+  const webpFrames: Array<{ bytes: Uint8Array; duration: number }> = [];
+  let written = 0;
+
+  for await (const { bitmap, duration } of animation.frames()) {
+    if (!canvas || !rect) {
+      const focus = options.fit === 'smart' ? options.focus ?? findSubjectBox(bitmap) : null;
+      rect = computeDrawRect(
+        sourceWidth,
+        sourceHeight,
+        options.aspectRatio,
+        options.resize,
+        options.fit,
+        focus
+      );
+      canvas = createCanvas(rect.targetWidth, rect.targetHeight);
+      if (rect.dWidth < rect.targetWidth || rect.dHeight < rect.targetHeight) {
+        background = resolveBackgroundColor(options.padBackground, bitmap, outputType);
+      }
+    }
+
+    const { sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight, targetWidth, targetHeight } = rect;
+    const ctx = get2dContext(canvas);
+    ctx.clearRect(0, 0, targetWidth, targetHeight);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, targetWidth, targetHeight);
+    }
+    ctx.drawImage(bitmap, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+    bitmap.close();
+    if (options.watermark) {
+      await drawWatermark(ctx, targetWidth, targetHeight, options.watermark);
+    }
+
+    if (outputType === 'image/gif') {
+      // 第一帧有透明区域时按透明动图编码（每帧完整写入）
+      gif ??= new GifEncoder(targetWidth, targetHeight, {
+        loopCount,
+        transparent: canvasHasAlpha(ctx, targetWidth, targetHeight)
+      });
+      gif.addFrame(ctx.getImageData(0, 0, targetWidth, targetHeight).data, duration);
+    } else {
+      const blob = await canvasToBlob(canvas, 'image/webp', ANIMATION_QUALITY);
+      webpFrames.push({ bytes: new Uint8Array(await blob.arrayBuffer()), duration });
+    }
+
+    written += 1;
+    onProgress(10 + Math.round((Math.min(written, frameCount) / frameCount) * 85));
+  }
+  if (!rect) throw new DecodeError('Animation has no frames');
+
+  const blob = gif
+    ? gif.finish()
+    : new Blob([muxAnimatedWebp(webpFrames, rect.targetWidth, rect.targetHeight, loopCount) as BlobPart], {
+        type: 'image/webp'
+      });
+  onProgress(100);
+
+  return {
+    blob,
+    outputType,
+    requestedType,
+    quality: gif ? undefined : ANIMATION_QUALITY,
+    alphaDiscarded: false,
+    width: rect.targetWidth,
+    height: rect.targetHeight,
+    sourceWidth,
+    sourceHeight,
+    frameCount: written,
+    variants: []
+  };
+}
+
+/**
+ * 执行完整处理流程。source 为原始文件或已解码的位图
+ */
+export async function runPipeline(
+  source: Blob | ImageBitmap,
+  inputType: string,
+  options: PipelineOptions,
+  onProgress: ProgressFn = () => {}
+): Promise<PipelineResult> {
+  // 动图：无法逐帧解码时按静态图处理（第一帧）
+  const animation =
+    source instanceof Blob && (inputType === 'image/gif' || inputType === 'image/webp')
+      ? await openAnimation(source).catch(() => null)
+      : null;
+  if (animation) return runAnimationPipeline(animation, options, onProgress);
+
+  const { bitmap, colorProfile, unsupportedProfile } =
+    source instanceof Blob
+      ? await decodeSource(source)
+      : { bitmap: source, colorProfile: null, unsupportedProfile: null };
+  onProgress(10);
+
+  const sourceWidth = bitmap.width;
+  const sourceHeight = bitmap.height;
+  const focus = options.fit === 'smart' ? options.focus ?? findSubjectBox(bitmap) : null;
+  const { sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight, targetWidth, targetHeight } =
+    computeDrawRect(
+      sourceWidth,
+      sourceHeight,
+      options.aspectRatio,
+      options.resize,
+      options.fit,
+      focus
+    );
+
+  const supportedTypes = await detectEncodableTypes();
+  let outputType = resolveOutputType(options.outputFormat, inputType, supportedTypes);
+  const requestedType =
+    options.outputFormat === 'keep' ? outputType : formatToMime[options.outputFormat];
+
+  const canvas = createCanvas(targetWidth, targetHeight);
+  const ctx = get2dContext(canvas);
+  // 留白模式：先填充背景，再把完整图片居中绘制
+  if (dWidth < targetWidth || dHeight < targetHeight) {
+    const background = resolveBackgroundColor(options.padBackground, bitmap, outputType);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, targetWidth, targetHeight);
+    }
+  }
+  ctx.drawImage(bitmap, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+  bitmap.close();
+  if (options.watermark) {
+    await drawWatermark(ctx, targetWidth, targetHeight, options.watermark);
+  }
+  onProgress(25);
+
+  // PNG 输出可选调色板量化，JPEG 使用所选编码后端，其他格式交给画布编码
+  const pngQuantize =
+    options.pngColors > 0 && supportsPngQuantization
+      ? { colors: options.pngColors, dither: options.pngDither }
+      : null;
+  let jpegFallback = false;
+  const encodeCanvas = async (target: AnyCanvas, type: string, quality?: number) => {
+    if (type === 'image/png' && pngQuantize) return encodeQuantizedPng(target, pngQuantize);
+    if (type !== 'image/jpeg') return canvasToBlob(target, type, quality);
+    const jpeg = await encodeJpeg(target, quality ?? 0.92, options.jpegEncoder);
+    jpegFallback ||= jpeg.fallback;
+    return jpeg.blob;
+  };
+  const encode = (type: string, quality?: number) => encodeCanvas(canvas, type, quality);
+  let scoreSsim = createSsimScorer(canvas);
+  const budgetBytes = options.byteBudgetKb * 1024;
+  const encodeSpan = options.variantWidths.length ? 55 : 75;
+  const budgetOptions = {
+    onProgress: (fraction: number) => onProgress(25 + Math.round(fraction * encodeSpan)),
+    score: (blob: Blob) => scoreSsim(blob),
+    minScore: options.minSsim
+  };
+
+  // 目标格式不支持透明时先合成背景（包括回退到 JPEG 的情况）
+  const hasAlpha = canvasHasAlpha(ctx, targetWidth, targetHeight);
+  let alphaDiscarded = false;
+  const prepareCanvas = (type: string) => {
+    if (!hasAlpha || alphaDiscarded || supportsAlpha(type)) return;
+    flattenAlpha(canvas, options.flatten);
+    scoreSsim = createSsimScorer(canvas);
+    alphaDiscarded = true;
+  };
+
+  // 在预算内查找最高质量
+  prepareCanvas(outputType);
+  let encoded = await encodeWithinBudget(encode, outputType, budgetBytes, budgetOptions);
+  // 浏览器静默改用其他格式时，按回退链重新编码
+  while (encoded.blob.type && encoded.blob.type !== outputType) {
+    const next = nextFallbackType(outputType);
+    if (!next) break;
+    outputType = next;
+    prepareCanvas(outputType);
+    encoded = await encodeWithinBudget(encode, outputType, budgetBytes, budgetOptions);
+  }
+  // 量化后的 PNG 是有损的，同样记录 SSIM
+  if (outputType === 'image/png' && pngQuantize) {
+    encoded = { ...encoded, score: await scoreSsim(encoded.blob) };
+  }
+
+  // 源图为广色域时像素已转换，输出标记为 sRGB
+  const tagOutput = async (blob: Blob) =>
+    colorProfile
+      ? new Blob([tagSrgb(new Uint8Array(await blob.arrayBuffer()), buildSrgbProfile()) as BlobPart], {
+          type: blob.type
+        })
+      : blob;
+
+  // 响应式变体：从已绘制的画布缩小，沿用主图的格式和质量
+  const variants: PipelineVariant[] = [];
+  const widths = options.variantWidths.filter((w) => w < targetWidth);
+  for (let i = 0; i < widths.length; i += 1) {
+    const variantWidth = widths[i];
+    const variantHeight = Math.max(1, Math.round((targetHeight * variantWidth) / targetWidth));
+    const variantCanvas = createCanvas(variantWidth, variantHeight);
+    get2dContext(variantCanvas).drawImage(canvas, 0, 0, variantWidth, variantHeight);
+    variants.push({
+      width: variantWidth,
+      height: variantHeight,
+      blob: await tagOutput(await encodeCanvas(variantCanvas, outputType, encoded.quality))
+    });
+    onProgress(80 + Math.round(((i + 1) / widths.length) * 20));
+  }
+
+  onProgress(100);
+
+  return {
+    blob: await tagOutput(encoded.blob),
+    outputType,
+    requestedType,
+    quality: encoded.quality,
+    colorProfile: colorProfile ?? undefined,
+    unsupportedProfile: unsupportedProfile ?? undefined,
+    alphaDiscarded,
+    ssim: encoded.score,
+    width: targetWidth,
+    height: targetHeight,
+    sourceWidth,
+    sourceHeight,
+    jpegFallback: jpegFallback || undefined,
+    variants
+  };
+}
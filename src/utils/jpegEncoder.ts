@@ -0,0 +1,72 @@
+// JPEG 编码后端：浏览器内置编码器，或按需加载的 MozJPEG WASM 编码器
+// MozJPEG 支持渐进式扫描、色度抽样控制和网格量化，同等画质下体积通常小 15-30%
+
+import { canvasToBlob, get2dContext, type AnyCanvas } from './canvas';
+
+export type JpegEncoderId = 'browser' | 'mozjpeg';
+
+// 444：不抽样，文字、细线边缘更锐利；420：色度减半，体积更小
+export type ChromaSubsampling = '444' | '420';
+
+export interface JpegEncoderOptions {
+  encoder: JpegEncoderId;
+  progressive: boolean;
+  subsampling: ChromaSubsampling;
+}
+
+export const DEFAULT_JPEG_ENCODER: JpegEncoderOptions = {
+  encoder: 'browser',
+  progressive: true,
+  subsampling: '420'
+};
+
+type JpegBackend = (canvas: AnyCanvas, quality: number, options: JpegEncoderOptions) => Promise<Blob>;
+
+const encodeWithBrowser: JpegBackend = (canvas, quality) =>
+  canvasToBlob(canvas, 'image/jpeg', quality);
+
+let mozjpegPromise: Promise<typeof import('@jsquash/jpeg/encode').default> | null = null;
+
+const encodeWithMozJpeg: JpegBackend = async (canvas, quality, options) => {
+  mozjpegPromise ??= import('@jsquash/jpeg/encode').then((module) => module.default);
+  const encode = await mozjpegPromise;
+  const imageData = get2dContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+  const buffer = await encode(imageData, {
+    quality: Math.round(quality * 100),
+    baseline: false,
+    progressive: options.progressive,
+    optimize_coding: true,
+    trellis_multipass: true,
+    auto_subsample: false,
+    chroma_subsample: options.subsampling === '444' ? 1 : 2
+  });
+  return new Blob([buffer], { type: 'image/jpeg' });
+};
+
+const backends: Record<JpegEncoderId, JpegBackend> = {
+  browser: encodeWithBrowser,
+  mozjpeg: encodeWithMozJpeg
+};
+
+// 编码结果；fallback 为 true 表示所选 WASM 编码器不可用，实际使用了浏览器编码器
+export interface JpegEncodeResult {
+  blob: Blob;
+  fallback: boolean;
+}
+
+/**
+ * 用所选后端编码 JPEG；WASM 编码器加载失败时回退到浏览器编码器，并在结果中标记
+ */
+export async function encodeJpeg(
+  canvas: AnyCanvas,
+  quality: number,
+  options: JpegEncoderOptions
+): Promise<JpegEncodeResult> {
+  try {
+    return { blob: await backends[options.encoder](canvas, quality, options), fallback: false };
+  } catch (error) {
+    if (options.encoder === 'browser') throw error;
+    mozjpegPromise = null;
+    return { blob: await encodeWithBrowser(canvas, quality, options), fallback: true };
+  }
+}
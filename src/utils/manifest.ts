@@ -0,0 +1,42 @@
+// 导出清单：ZIP 中附带 manifest.csv，列出每张图片的文件名、alt 文本等，便于批量上传后填写平台字段
+
+export interface ManifestRow {
+  filename: string;
+  originalName: string;
+  keyword: string;
+  altText: string;
+  handle: string; // 商品 handle（来自导入的对应表）
+  width: number;
+  height: number;
+  sizeKb: number;
+}
+
+const COLUMNS: Array<[keyof ManifestRow, string]> = [
+  ['filename', 'filename'],
+  ['originalName', 'original_filename'],
+  ['keyword', 'keyword'],
+  ['altText', 'alt_text'],
+  ['handle', 'product_handle'],
+  ['width', 'width'],
+  ['height', 'height'],
+  ['sizeKb', 'size_kb']
+];
+
+/**
+ * CSV 单元格：包含逗号、引号或换行时加引号，引号转义为两个引号
+ */
+export const escapeCsvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 生成 CSV 文本。开头加 BOM，Excel 打开中文不乱码
+ */
+export function buildManifestCsv(rows: ManifestRow[]): string {
+  const lines = [
+    COLUMNS.map(([, header]) => header).join(','),
+    ...rows.map((row) => COLUMNS.map(([key]) => escapeCsvCell(row[key])).join(','))
+  ];
+  return `\ufeff${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { findMapping, parseCsv, toMappingEntries } from './mapping';
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('\ufefffilename,alt\r\n"a,b.jpg","Say ""hi""\nthere"\n')).toEqual([
+      ['filename', 'alt'],
+      ['a,b.jpg', 'Say "hi"\nthere']
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('file;keyword\nx.jpg;dress')).toEqual([
+      ['file', 'keyword'],
+      ['x.jpg', 'dress']
+    ]);
+    expect(parseCsv('file\tsku\nx.jpg\tA-1')[1]).toEqual(['x.jpg', 'A-1']);
+  });
+});
+
+describe('toMappingEntries', () => {
+  it('maps header aliases and skips rows without a file name', () => {
+    const rows = [['SKU', 'Original File Name', 'Keywords'], ['A-1', 'IMG_1.jpg', 'red dress'], ['A-2', '', 'skip']];
+    expect(toMappingEntries(rows)).toEqual([{ pattern: 'IMG_1.jpg', sku: 'A-1', keyword: 'red dress' }]);
+  });
+
+  it('falls back to the default column order without a header', () => {
+    expect(toMappingEntries([['IMG_2.jpg', 'tote', 'B-2']])).toEqual([
+      { pattern: 'IMG_2.jpg', keyword: 'tote', sku: 'B-2' }
+    ]);
+  });
+});
+
+describe('findMapping', () => {
+  const entries = [
+    { pattern: 'IMG_*', keyword: 'glob' },
+    { pattern: 'img_0001', keyword: 'base' },
+    { pattern: 'IMG_0001.JPG', keyword: 'exact' },
+    { pattern: 'shoe-??', keyword: 'short glob' }
+  ];
+
+  it('prefers the full name, then the base name, then wildcards in order', () => {
+    expect(findMapping('img_0001.jpg', entries)?.keyword).toBe('exact');
+    expect(findMapping('IMG_0001.png', entries)?.keyword).toBe('base');
+    expect(findMapping('IMG_0002.png', entries)?.keyword).toBe('glob');
+  });
+
+  it('matches wildcards against the name without its extension', () => {
+    expect(findMapping('shoe-01.webp', entries)?.keyword).toBe('short glob');
+    expect(findMapping('shoe-001.webp', entries)).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+// 批量对应表：从 CSV / XLSX 导入「原文件名（或通配符）→ 关键词、SKU、alt 文本、商品 handle」，
+// 省去在界面中逐张填写。XLSX 用 JSZip 解压后直接读取第一个工作表的 XML
+
+import JSZip from 'jszip';
+
+// 对应表中的一行，pattern 为原文件名或通配符（* 任意字符，? 单个字符）
+export interface MappingEntry {
+  pattern: string;
+  keyword?: string;
+  sku?: string;
+  altText?: string;
+  handle?: string;
+}
+
+type MappingField = keyof MappingEntry;
+
+// 表头别名（比较时忽略大小写、空格、下划线和连字符）
+const HEADER_ALIASES: Record<MappingField, string[]> = {
+  pattern: ['filename', 'file', 'originalfilename', 'original', 'image', 'pattern', '文件名', '原文件名', '图片'],
+  keyword: ['keyword', 'keywords', '关键词'],
+  sku: ['sku', '货号'],
+  altText: ['alt', 'alttext', 'imagealttext', 'alt文本', '替代文本'],
+  handle: ['handle', 'producthandle', '商品handle']
+};
+
+// 没有可识别的表头时按此顺序读取各列
+const DEFAULT_COLUMNS: MappingField[] = ['pattern', 'keyword', 'sku', 'altText', 'handle'];
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * 解析 CSV（支持引号、转义引号和引号内换行），分隔符按首行自动识别逗号、分号或制表符
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\ufeff/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// 单元格引用（如 AB12）的列号，从 0 开始
+const columnIndex = (ref: string) =>
+  (ref.match(/^[A-Z]+/i)?.[0] ?? 'A')
+    .toUpperCase()
+    .split('')
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+/**
+ * 读取 XLSX 第一个工作表的全部单元格文本
+ */
+export async function parseXlsx(source: Blob): Promise<string[][]> {
+  const zip = await JSZip.loadAsync(source);
+  const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve(null);
+
+  // 按工作簿中的顺序找到第一个工作表，找不到时使用默认路径
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await read('xl/workbook.xml');
+  const rels = await read('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const relId = parseXml(workbook).getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+    const target = Array.from(parseXml(rels).getElementsByTagName('Relationship'))
+      .find((rel) => rel.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName('si'), (si) =>
+        Array.from(si.getElementsByTagName('t'), (t) => t.textContent ?? '').join('')
+      )
+    : [];
+
+  const sheetXml = await read(sheetPath);
+  if (!sheetXml) throw new Error('No worksheet found');
+
+  return Array.from(parseXml(sheetXml).getElementsByTagName('row'), (rowNode) => {
+    const cells: string[] = [];
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cellNode, position) => {
+      const ref = cellNode.getAttribute('r');
+      const type = cellNode.getAttribute('t');
+      const value = cellNode.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text = value;
+      if (type === 's') {
+        text = shared[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(cellNode.getElementsByTagName('t'), (t) => t.textContent ?? '').join('');
+      }
+      cells[ref ? columnIndex(ref) : position] = text;
+    });
+    return Array.from(cells, (cell) => cell ?? '');
+  });
+}
+
+/**
+ * 把表格转换为对应表。首行包含可识别的文件名列时作为表头，否则按
+ * 文件名、关键词、SKU、alt 文本、handle 的顺序读取；跳过没有文件名的行
+ */
+export function toMappingEntries(rows: string[][]): MappingEntry[] {
+  const header = (rows[0] ?? []).map(normalizeHeader);
+  const columns = header.map(
+    (name) =>
+      (Object.keys(HEADER_ALIASES) as MappingField[]).find((field) =>
+        HEADER_ALIASES[field].includes(name)
+      ) ?? null
+  );
+  const hasHeader = columns.includes('pattern');
+  const fields = hasHeader ? columns : DEFAULT_COLUMNS;
+
+  return (hasHeader ? rows.slice(1) : rows).flatMap((row) => {
+    const entry: Partial<MappingEntry> = {};
+    fields.forEach((field, i) => {
+      const value = row[i]?.trim();
+      if (field && value) entry[field] = value;
+    });
+    return entry.pattern ? [entry as MappingEntry] : [];
+  });
+}
+
+/**
+ * 读取 CSV 或 XLSX 对应表
+ */
+export async function readMappingFile(file: File): Promise<MappingEntry[]> {
+  const isXlsx = /\.xlsx$/i.test(file.name) || file.type.includes('spreadsheetml');
+  const rows = isXlsx ? await parseXlsx(file) : parseCsv(await file.text());
+  return toMappingEntries(rows);
+}
+
+const hasWildcard = (pattern: string) => /[*?]/.test(pattern);
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')}$`,
+    'i'
+  );
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+/**
+ * 查找文件对应的行：完整文件名优先，其次是不含扩展名的文件名，最后按表中顺序匹配通配符
+ * （同样可以只匹配不含扩展名的部分）。均不区分大小写
+ */
+export function findMapping(fileName: string, entries: MappingEntry[]): MappingEntry | null {
+  const name = fileName.toLowerCase();
+  const base = stripExtension(name);
+  const exact = entries.filter((entry) => !hasWildcard(entry.pattern));
+  return (
+    exact.find((entry) => entry.pattern.toLowerCase() === name) ??
+    exact.find((entry) => entry.pattern.toLowerCase() === base) ??
+    entries.find((entry) => {
+      if (!hasWildcard(entry.pattern)) return false;
+      const glob = globToRegExp(entry.pattern);
+      return glob.test(name) || glob.test(base);
+    }) ??
+    null
+  );
+}
@@ -0,0 +1,586 @@
+// 图片元数据：读取 EXIF 方向和 ICC 配置文件，按策略剥离 / 精简 / 保留 EXIF，并为输出标记 sRGB
+// 支持 JPEG、PNG、WebP 容器，直接操作字节，不依赖画布
+
+// strip：全部移除（仅保留显示方向所需信息）
+// privacy：移除 GPS、机身/镜头序列号等隐私信息，保留版权、作者、相机型号
+// keep：保留原图全部 EXIF
+export type MetadataPolicy = 'strip' | 'privacy' | 'keep';
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const TAG_ORIENTATION = 0x0112;
+
+// privacy 策略保留的 IFD0 文本字段
+const PRIVACY_SAFE_TAGS = [
+  0x010e, // ImageDescription
+  0x010f, // Make
+  0x0110, // Model
+  0x0131, // Software
+  0x0132, // DateTime
+  0x013b, // Artist
+  0x8298 // Copyright
+];
+
+type ExifEntry = { tag: number; type: 'short'; value: number } | { tag: number; type: 'ascii'; value: string };
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: number[]) =>
+  prefix.every((b, i) => bytes[offset + i] === b);
+
+const concat = (parts: Uint8Array[]) => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((p) => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const detectContainer = (bytes: Uint8Array): 'jpeg' | 'png' | 'webp' | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (startsWith(bytes, 0, [0x89, 0x50, 0x4e, 0x47])) return 'png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  return null;
+};
+
+// ========== JPEG ==========
+
+type JpegSegment = { marker: number; start: number; end: number };
+
+/**
+ * 列出 SOS 之前的所有段（start 指向 0xFF，end 为段结束位置）
+ */
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; bodyStart: number } {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // SOS：之后是压缩数据
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, start: offset, end: offset + 2 + length });
+    offset += 2 + length;
+  }
+  return { segments, bodyStart: offset };
+}
+
+const isJpegExif = (bytes: Uint8Array, s: JpegSegment) =>
+  s.marker === 0xe1 && startsWith(bytes, s.start + 4, EXIF_HEADER);
+
+/**
+ * 读取 JPEG 编码尺寸（未应用方向）
+ */
+export function readJpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  if (detectContainer(bytes) !== 'jpeg') return null;
+  const { segments } = readJpegSegments(bytes);
+  const sof = segments.find(
+    (s) => s.marker >= 0xc0 && s.marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(s.marker)
+  );
+  if (!sof) return null;
+  return {
+    height: (bytes[sof.start + 5] << 8) | bytes[sof.start + 6],
+    width: (bytes[sof.start + 7] << 8) | bytes[sof.start + 8]
+  };
+}
+
+function stripJpeg(bytes: Uint8Array): Uint8Array {
+  const { segments, bodyStart } = readJpegSegments(bytes);
+  // 移除 APP1（EXIF / XMP）、APP13（IPTC）和注释段，保留 JFIF、ICC、Adobe 等
+  const kept = segments.filter((s) => s.marker !== 0xe1 && s.marker !== 0xed && s.marker !== 0xfe);
+  return concat([
+    bytes.subarray(0, 2),
+    ...kept.map((s) => bytes.subarray(s.start, s.end)),
+    bytes.subarray(bodyStart)
+  ]);
+}
+
+// EXIF 超出单个 APP1 段的容量时返回 null
+function insertJpegExif(bytes: Uint8Array, tiff: Uint8Array): Uint8Array | null {
+  const length = 2 + EXIF_HEADER.length + tiff.length;
+  if (length > 0xffff) return null;
+  const app1 = concat([
+    new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]),
+    new Uint8Array(EXIF_HEADER),
+    tiff
+  ]);
+  // EXIF 放在 SOI 和 JFIF（APP0）之后
+  const { segments } = readJpegSegments(bytes);
+  const insertAt = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+  return concat([bytes.subarray(0, insertAt), app1, bytes.subarray(insertAt)]);
+}
+
+// ========== PNG ==========
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+type PngChunk = { type: string; start: number; end: number; dataStart: number; dataEnd: number };
+
+function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const end = offset + 12 + length;
+    chunks.push({ type, start: offset, end, dataStart: offset + 8, dataEnd: offset + 8 + length });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+/**
+ * 构造 PNG 数据块（长度 + 类型 + 数据 + CRC）
+ */
+export function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i += 1) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+function stripPng(bytes: Uint8Array): Uint8Array {
+  const chunks = readPngChunks(bytes).filter((c) => !PNG_METADATA_CHUNKS.includes(c.type));
+  return concat([bytes.subarray(0, 8), ...chunks.map((c) => bytes.subarray(c.start, c.end))]);
+}
+
+function insertPngExif(bytes: Uint8Array, tiff: Uint8Array): Uint8Array | null {
+  const idat = readPngChunks(bytes).find((c) => c.type === 'IDAT');
+  if (!idat) return null;
+  return concat([
+    bytes.subarray(0, idat.start),
+    buildPngChunk('eXIf', tiff),
+    bytes.subarray(idat.start)
+  ]);
+}
+
+// ========== WebP ==========
+
+export type RiffChunk = { type: string; start: number; end: number; dataStart: number; size: number };
+
+export function readWebpChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ type: ascii(bytes, offset, 4), start: offset, end, dataStart: offset + 8, size });
+    offset = end;
+  }
+  return chunks;
+}
+
+export function buildWebp(chunks: Uint8Array[]): Uint8Array {
+  const body = concat(chunks);
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set([0x52, 0x49, 0x46, 0x46]); // RIFF
+  view.setUint32(4, body.length + 4, true);
+  header.set([0x57, 0x45, 0x42, 0x50], 8); // WEBP
+  return concat([header, body]);
+}
+
+export function buildRiffChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  for (let i = 0; i < 4; i += 1) chunk[i] = type.charCodeAt(i);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+// 读取简单格式（VP8 / VP8L）WebP 的画布尺寸与透明度
+function readWebpImageInfo(bytes: Uint8Array, chunk: RiffChunk) {
+  const d = chunk.dataStart;
+  if (chunk.type === 'VP8 ') {
+    return {
+      width: ((bytes[d + 7] << 8) | bytes[d + 6]) & 0x3fff,
+      height: ((bytes[d + 9] << 8) | bytes[d + 8]) & 0x3fff,
+      alpha: false
+    };
+  }
+  // VP8L：签名 0x2f 后依次为 14 位宽-1、14 位高-1、1 位 alpha
+  const bits = bytes[d + 1] | (bytes[d + 2] << 8) | (bytes[d + 3] << 16) | (bytes[d + 4] << 24);
+  return {
+    width: (bits & 0x3fff) + 1,
+    height: ((bits >>> 14) & 0x3fff) + 1,
+    alpha: ((bits >>> 28) & 1) === 1
+  };
+}
+
+const VP8X_ICC = 0x20;
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+function stripWebp(bytes: Uint8Array): Uint8Array {
+  const chunks = readWebpChunks(bytes).filter((c) => c.type !== 'EXIF' && c.type !== 'XMP ');
+  return buildWebp(
+    chunks.map((c) => {
+      const raw = bytes.slice(c.start, c.end);
+      if (c.type === 'VP8X') raw[8] &= ~(VP8X_EXIF | VP8X_XMP);
+      return raw;
+    })
+  );
+}
+
+/**
+ * 拆出全部数据块，并在首个 VP8X 块上设置标记；简单格式需先升级为扩展格式（VP8X）
+ */
+function webpPartsWithFlag(bytes: Uint8Array, flag: number): Uint8Array[] | null {
+  const chunks = readWebpChunks(bytes);
+  const parts: Uint8Array[] = chunks.map((c) => bytes.slice(c.start, c.end));
+
+  if (chunks[0]?.type === 'VP8X') {
+    parts[0][8] |= flag;
+    return parts;
+  }
+
+  const image = chunks.find((c) => c.type === 'VP8 ' || c.type === 'VP8L');
+  if (!image) return null;
+  const info = readWebpImageInfo(bytes, image);
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flag | (info.alpha ? VP8X_ALPHA : 0);
+  const w = info.width - 1;
+  const h = info.height - 1;
+  vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+  parts.unshift(buildRiffChunk('VP8X', vp8x));
+  return parts;
+}
+
+function insertWebpExif(bytes: Uint8Array, tiff: Uint8Array): Uint8Array | null {
+  const parts = webpPartsWithFlag(bytes, VP8X_EXIF);
+  if (!parts) return null;
+  parts.push(buildRiffChunk('EXIF', tiff));
+  return buildWebp(parts);
+}
+
+// ========== ICC 色彩配置 ==========
+
+const ICC_HEADER = [...'ICC_PROFILE'].map((c) => c.charCodeAt(0)).concat(0);
+const MAX_ICC_SEGMENT = 0xffff - 2 - ICC_HEADER.length - 2;
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * 取出图片内嵌的 ICC 配置文件，没有时返回 null
+ */
+export async function extractIccProfile(bytes: Uint8Array): Promise<Uint8Array | null> {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': {
+      // 大配置文件会拆分到多个 APP2 段，按序号拼接
+      const parts = readJpegSegments(bytes)
+        .segments.filter((s) => s.marker === 0xe2 && startsWith(bytes, s.start + 4, ICC_HEADER))
+        .map((s) => ({
+          seq: bytes[s.start + 4 + ICC_HEADER.length],
+          data: bytes.subarray(s.start + 4 + ICC_HEADER.length + 2, s.end)
+        }))
+        .sort((a, b) => a.seq - b.seq);
+      return parts.length ? concat(parts.map((p) => p.data)) : null;
+    }
+    case 'png': {
+      // iCCP：名称\0 + 压缩方式(1) + zlib 数据
+      const chunk = readPngChunks(bytes).find((c) => c.type === 'iCCP');
+      if (!chunk) return null;
+      const data = bytes.subarray(chunk.dataStart, chunk.dataEnd);
+      const nameEnd = data.indexOf(0);
+      if (nameEnd < 0 || typeof DecompressionStream === 'undefined') return null;
+      return inflate(data.subarray(nameEnd + 2));
+    }
+    case 'webp': {
+      const chunk = readWebpChunks(bytes).find((c) => c.type === 'ICCP');
+      return chunk ? bytes.slice(chunk.dataStart, chunk.dataStart + chunk.size) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 在 JPEG 中写入 ICC 配置文件（单个 APP2 段，放在 JFIF 之后）
+ */
+export function embedJpegIccProfile(bytes: Uint8Array, profile: Uint8Array): Uint8Array {
+  if (profile.length > MAX_ICC_SEGMENT) return bytes;
+  const length = 2 + ICC_HEADER.length + 2 + profile.length;
+  const app2 = concat([
+    new Uint8Array([0xff, 0xe2, length >> 8, length & 0xff, ...ICC_HEADER, 1, 1]),
+    profile
+  ]);
+  const { segments } = readJpegSegments(bytes);
+  const insertAt = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+  return concat([bytes.subarray(0, insertAt), app2, bytes.subarray(insertAt)]);
+}
+
+/**
+ * 为输出文件标记 sRGB：JPEG / WebP 写入 ICC 配置文件，PNG 写入 sRGB 块
+ */
+export function tagSrgb(bytes: Uint8Array, profile: Uint8Array): Uint8Array {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return embedJpegIccProfile(bytes, profile);
+    case 'png': {
+      // sRGB 块必须位于 PLTE 和 IDAT 之前，直接放在 IHDR 之后
+      const ihdr = readPngChunks(bytes)[0];
+      if (!ihdr) return bytes;
+      return concat([
+        bytes.subarray(0, ihdr.end),
+        buildPngChunk('sRGB', new Uint8Array([0])),
+        bytes.subarray(ihdr.end)
+      ]);
+    }
+    case 'webp': {
+      // ICCP 块必须紧跟 VP8X
+      const parts = webpPartsWithFlag(bytes, VP8X_ICC);
+      if (!parts) return bytes;
+      parts.splice(1, 0, buildRiffChunk('ICCP', profile));
+      return buildWebp(parts);
+    }
+    default:
+      return bytes;
+  }
+}
+
+// ========== EXIF（TIFF 结构）==========
+
+/**
+ * 从图片中取出 EXIF 的 TIFF 数据（不含 "Exif\0\0" 前缀）
+ */
+export function extractExif(bytes: Uint8Array): Uint8Array | null {
+  switch (detectContainer(bytes)) {
+    case 'jpeg': {
+      const seg = readJpegSegments(bytes).segments.find((s) => isJpegExif(bytes, s));
+      return seg ? bytes.slice(seg.start + 4 + EXIF_HEADER.length, seg.end) : null;
+    }
+    case 'png': {
+      const chunk = readPngChunks(bytes).find((c) => c.type === 'eXIf');
+      return chunk ? bytes.slice(chunk.dataStart, chunk.dataEnd) : null;
+    }
+    case 'webp': {
+      const chunk = readWebpChunks(bytes).find((c) => c.type === 'EXIF');
+      if (!chunk) return null;
+      const data = bytes.slice(chunk.dataStart, chunk.dataStart + chunk.size);
+      return startsWith(data, 0, EXIF_HEADER) ? data.slice(EXIF_HEADER.length) : data;
+    }
+    default:
+      return null;
+  }
+}
+
+type TiffIfd = { view: DataView; little: boolean; entries: Array<{ tag: number; type: number; count: number; valueOffset: number }> };
+
+function readIfd0(tiff: Uint8Array): TiffIfd | null {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = view.getUint16(0) === 0x4949;
+  if (!little && view.getUint16(0) !== 0x4d4d) return null;
+  const ifdOffset = view.getUint32(4, little);
+  if (ifdOffset + 2 > tiff.length) return null;
+  const count = view.getUint16(ifdOffset, little);
+  const entries = [];
+  for (let i = 0; i < count; i += 1) {
+    const p = ifdOffset + 2 + i * 12;
+    if (p + 12 > tiff.length) break;
+    entries.push({
+      tag: view.getUint16(p, little),
+      type: view.getUint16(p + 2, little),
+      count: view.getUint32(p + 4, little),
+      valueOffset: p + 8
+    });
+  }
+  return { view, little, entries };
+}
+
+/**
+ * 读取 EXIF 方向（1-8），缺失时返回 1
+ */
+export function readOrientation(tiff: Uint8Array | null): number {
+  const ifd = tiff && readIfd0(tiff);
+  const entry = ifd?.entries.find((e) => e.tag === TAG_ORIENTATION);
+  if (!ifd || !entry) return 1;
+  const value = ifd.view.getUint16(entry.valueOffset, ifd.little);
+  return value >= 1 && value <= 8 ? value : 1;
+}
+
+/**
+ * 复制 TIFF 并改写方向标记（像素已旋转后需重置为 1）
+ */
+export function withOrientation(tiff: Uint8Array, orientation: number): Uint8Array {
+  const copy = tiff.slice();
+  const ifd = readIfd0(copy);
+  const entry = ifd?.entries.find((e) => e.tag === TAG_ORIENTATION);
+  if (ifd && entry) ifd.view.setUint16(entry.valueOffset, orientation, ifd.little);
+  return copy;
+}
+
+function readAsciiTag(ifd: TiffIfd, tiff: Uint8Array, tag: number): string | null {
+  const entry = ifd.entries.find((e) => e.tag === tag && e.type === 2);
+  if (!entry) return null;
+  const start = entry.count <= 4 ? entry.valueOffset : ifd.view.getUint32(entry.valueOffset, ifd.little);
+  if (start + entry.count > tiff.length) return null;
+  const text = new TextDecoder().decode(tiff.subarray(start, start + entry.count)).replace(/\0+$/, '');
+  return text || null;
+}
+
+/**
+ * 构造只含 IFD0 的最小 TIFF（小端序）
+ */
+function buildTiff(entries: ExifEntry[]): Uint8Array {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const encoded = sorted.map((e) =>
+    e.type === 'ascii' ? new TextEncoder().encode(`${e.value}\0`) : null
+  );
+  const ifdSize = 2 + sorted.length * 12 + 4;
+  const dataSize = encoded.reduce((sum, d) => sum + (d && d.length > 4 ? d.length + (d.length % 2) : 0), 0);
+  const tiff = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(tiff.buffer);
+
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, sorted.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  sorted.forEach((entry, i) => {
+    const p = 10 + i * 12;
+    view.setUint16(p, entry.tag, true);
+    if (entry.type === 'short') {
+      view.setUint16(p + 2, 3, true);
+      view.setUint32(p + 4, 1, true);
+      view.setUint16(p + 8, entry.value, true);
+      return;
+    }
+    const data = encoded[i]!;
+    view.setUint16(p + 2, 2, true);
+    view.setUint32(p + 4, data.length, true);
+    if (data.length <= 4) {
+      tiff.set(data, p + 8);
+    } else {
+      view.setUint32(p + 8, dataOffset, true);
+      tiff.set(data, dataOffset);
+      dataOffset += data.length + (data.length % 2);
+    }
+  });
+
+  return tiff;
+}
+
+/**
+ * 按策略生成要写入输出文件的 EXIF；返回 null 表示不写入
+ * orientation 为输出像素对应的方向（重新编码后为 1，原图直出时沿用原值）
+ */
+function exifForPolicy(
+  policy: MetadataPolicy,
+  originalTiff: Uint8Array | null,
+  orientation: number
+): Uint8Array | null {
+  if (policy === 'keep') {
+    return originalTiff ? withOrientation(originalTiff, orientation) : null;
+  }
+
+  const entries: ExifEntry[] = [];
+  if (policy === 'privacy' && originalTiff) {
+    const ifd = readIfd0(originalTiff);
+    if (ifd) {
+      PRIVACY_SAFE_TAGS.forEach((tag) => {
+        const value = readAsciiTag(ifd, originalTiff, tag);
+        if (value) entries.push({ tag, type: 'ascii', value });
+      });
+    }
+  }
+  if (orientation !== 1) {
+    entries.push({ tag: TAG_ORIENTATION, type: 'short', value: orientation });
+  }
+  return entries.length ? buildTiff(entries) : null;
+}
+
+const stripContainer = (bytes: Uint8Array) => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return stripJpeg(bytes);
+    case 'png':
+      return stripPng(bytes);
+    case 'webp':
+      return stripWebp(bytes);
+    default:
+      return bytes;
+  }
+};
+
+// 无法写入时返回 null
+const insertExif = (bytes: Uint8Array, tiff: Uint8Array) => {
+  switch (detectContainer(bytes)) {
+    case 'jpeg':
+      return insertJpegExif(bytes, tiff);
+    case 'png':
+      return insertPngExif(bytes, tiff);
+    case 'webp':
+      return insertWebpExif(bytes, tiff);
+    default:
+      return null;
+  }
+};
+
+// exifDropped 为 true 表示按策略应保留的 EXIF 无法写入输出文件（如超出 JPEG APP1 段容量）
+export interface MetadataResult {
+  blob: Blob;
+  exifDropped: boolean;
+}
+
+/**
+ * 对输出文件应用元数据策略。
+ * passThrough 为 true 表示输出就是原图（未重新编码），像素方向仍依赖原 EXIF 方向标记。
+ * 不支持的容器（如 AVIF）原样返回。
+ */
+export async function applyMetadataPolicy(
+  output: Blob,
+  original: Blob,
+  policy: MetadataPolicy,
+  passThrough: boolean
+): Promise<MetadataResult> {
+  if (policy === 'keep' && passThrough) return { blob: output, exifDropped: false };
+
+  const bytes = new Uint8Array(await output.arrayBuffer());
+  if (!detectContainer(bytes)) return { blob: output, exifDropped: false };
+
+  const originalTiff = extractExif(new Uint8Array(await original.arrayBuffer()));
+  const orientation = passThrough ? readOrientation(originalTiff) : 1;
+  const tiff = exifForPolicy(policy, originalTiff, orientation);
+
+  const stripped = stripContainer(bytes);
+  const inserted = tiff && insertExif(stripped, tiff);
+  return {
+    blob: new Blob([(inserted || stripped) as BlobPart], { type: output.type }),
+    exifDropped: !!tiff && !inserted
+  };
+}
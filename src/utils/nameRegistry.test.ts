@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { claimName, nextIssuedIndex, releaseNames } from './nameRegistry';
+
+const render = (attempt: number) => `dress-${String(attempt + 1).padStart(2, '0')}.jpg`;
+
+describe('claimName', () => {
+  it('skips names held by other images or already exported', () => {
+    const taken = new Map([
+      ['dress-01.jpg', ''],
+      ['dress-02.jpg', 'other']
+    ]);
+    expect(claimName(taken, 'me', render)).toEqual({ name: 'dress-03.jpg', attempt: 2 });
+    expect(taken.get('dress-03.jpg')).toBe('me');
+  });
+
+  it('lets an image keep its own name when processed again', () => {
+    const taken = new Map<string, string>();
+    claimName(taken, 'me', render);
+    expect(claimName(taken, 'me', render).name).toBe('dress-01.jpg');
+    expect(taken.size).toBe(1);
+  });
+
+  it('releases only names held by the owner', () => {
+    const taken = new Map([
+      ['a.jpg', 'me'],
+      ['b.jpg', ''],
+      ['c.jpg', 'other']
+    ]);
+    releaseNames(taken, 'me');
+    expect([...taken.keys()]).toEqual(['b.jpg', 'c.jpg']);
+  });
+});
+
+describe('nextIssuedIndex', () => {
+  it('continues after the highest issued index of the keyword', () => {
+    const issued = [
+      { name: 'dress-04.jpg', keyword: 'dress', index: 4, issuedAt: 0 },
+      { name: 'bag-09.jpg', keyword: 'bag', index: 9, issuedAt: 0 }
+    ];
+    expect(nextIssuedIndex(issued, 'dress')).toBe(5);
+    expect(nextIssuedIndex(issued, 'hat')).toBe(1);
+  });
+});
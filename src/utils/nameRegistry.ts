@@ -0,0 +1,115 @@
+// 已导出文件名登记：保存在浏览器 IndexedDB 中，避免新批次与以前导出的文件重名
+// （Shopify 的 Files 等媒体库遇到同名文件会直接覆盖）
+
+// 一条导出记录
+export interface IssuedName {
+  name: string; // 完整文件名（含扩展名）
+  keyword: string; // 清洗后的关键词，用于接续编号
+  index: number;
+  issuedAt: number;
+}
+
+const DB_NAME = 'ecommerce-image-seo';
+const DB_VERSION = 1;
+const STORE = 'issuedNames';
+
+// 重名时最多顺延的次数
+const MAX_ATTEMPTS = 1000;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'name' });
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * 在单个事务中操作记录表，完成后关闭连接
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 读取全部导出记录；浏览器不支持或禁用 IndexedDB 时返回空列表
+ */
+export async function loadIssuedNames(): Promise<IssuedName[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  return withStore('readonly', (store) => store.getAll() as IDBRequest<IssuedName[]>).catch(() => []);
+}
+
+/**
+ * 登记导出的文件名，同名记录会被更新
+ */
+export async function recordIssuedNames(entries: IssuedName[]): Promise<void> {
+  if (typeof indexedDB === 'undefined' || !entries.length) return;
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach((entry) => store.put(entry));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 清空导出记录
+ */
+export async function clearIssuedNames(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  await withStore('readwrite', (store) => store.clear());
+}
+
+/**
+ * 某个关键词下一次应使用的起始序号（已登记的最大序号 + 1），没有记录时返回 1
+ */
+export const nextIssuedIndex = (issued: IssuedName[], keyword: string) =>
+  issued.reduce((next, entry) => (entry.keyword === keyword ? Math.max(next, entry.index + 1) : next), 1);
+
+/**
+ * 释放图片占用的文件名（删除图片或重新处理时）；已导出的文件名不会被释放
+ */
+export function releaseNames(taken: Map<string, string>, owner: string) {
+  taken.forEach((holder, name) => {
+    if (holder === owner) taken.delete(name);
+  });
+}
+
+/**
+ * 为图片占用一个不重名的文件名。taken 记录文件名 -> 占用者（空字符串表示已导出的文件）；
+ * render(attempt) 生成第 attempt 次尝试的文件名，attempt 从 0 开始。
+ * 会先释放该图片之前占用的文件名，因此重新处理尚未导出的图片时可以沿用原来的名字
+ */
+export function claimName(
+  taken: Map<string, string>,
+  owner: string,
+  render: (attempt: number) => string
+): { name: string; attempt: number } {
+  releaseNames(taken, owner);
+  let attempt = 0;
+  let name = render(attempt);
+  while (taken.has(name) && attempt < MAX_ATTEMPTS) {
+    attempt += 1;
+    name = render(attempt);
+  }
+  taken.set(name, owner);
+  return { name, attempt };
+}
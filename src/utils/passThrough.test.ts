@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { resolveSourceType } from './heic';
+import { canPassThrough } from './passThrough';
+import { DEFAULT_WATERMARK } from './watermark';
+
+const original = new Blob([new Uint8Array(1000)], { type: 'image/jpeg' });
+
+// 重新编码后比原图大、尺寸不变的 JPEG 输出
+const largerResult = {
+  blob: new Blob([new Uint8Array(1500)], { type: 'image/jpeg' }),
+  outputType: 'image/jpeg',
+  width: 800,
+  height: 600,
+  sourceWidth: 800,
+  sourceHeight: 600
+};
+
+describe('canPassThrough', () => {
+  it('ships the original when re-encoding a plain image makes it larger', () => {
+    expect(canPassThrough(largerResult, original, { outputFormat: 'keep', watermark: null })).toBe(true);
+  });
+
+  it('keeps the re-encoded output when the image is watermarked', () => {
+    const watermark = { ...DEFAULT_WATERMARK, text: '© Shop' };
+    expect(canPassThrough(largerResult, original, { outputFormat: 'keep', watermark })).toBe(false);
+  });
+
+  it('keeps the re-encoded output when the image was resized, cropped or padded', () => {
+    const options = { outputFormat: 'keep', watermark: null } as const;
+    expect(canPassThrough({ ...largerResult, width: 600, height: 450 }, original, options)).toBe(false);
+    expect(canPassThrough({ ...largerResult, width: 600 }, original, options)).toBe(false);
+    expect(canPassThrough({ ...largerResult, height: 800 }, original, options)).toBe(false);
+  });
+
+  it('keeps the re-encoded output when it is smaller, converted or in another format', () => {
+    const options = { outputFormat: 'keep', watermark: null } as const;
+    const smaller = { ...largerResult, blob: new Blob([new Uint8Array(500)], { type: 'image/jpeg' }) };
+    expect(canPassThrough(smaller, original, options)).toBe(false);
+    expect(canPassThrough({ ...largerResult, colorProfile: 'Display P3' }, original, options)).toBe(false);
+    expect(canPassThrough(largerResult, original, { outputFormat: 'webp', watermark: null })).toBe(false);
+  });
+
+  it('never ships a HEIC source, even when the browser reports an empty type', () => {
+    const options = { outputFormat: 'keep', watermark: null } as const;
+    const heic = new File([new Uint8Array(1000)], 'IMG_0001.HEIC', { type: '' });
+    const source = { size: heic.size, type: resolveSourceType(heic) };
+    expect(source.type).toBe('image/heic');
+    expect(canPassThrough(largerResult, source, options)).toBe(false);
+    expect(canPassThrough({ ...largerResult, outputType: 'image/heic' }, source, options)).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+// 原图直出：保持原格式时，重新编码的结果反而比原图大，则改为输出原文件
+
+import { isHeifType } from './heic';
+import type { PipelineOptions, PipelineResult } from './imagePipeline';
+
+type PassThroughResult = Pick<
+  PipelineResult,
+  'blob' | 'outputType' | 'colorProfile' | 'frameCount' | 'width' | 'height' | 'sourceWidth' | 'sourceHeight'
+>;
+
+// 原图的大小和实际 MIME 类型（见 resolveSourceType，不能直接使用可能为空的 File.type）
+export interface PassThroughSource {
+  size: number;
+  type: string;
+}
+
+/**
+ * 判断能否用原图代替处理结果。原图必须与输出画面一致：格式相同、未加水印、无需转换为 sRGB，
+ * 且尺寸未变（computeDrawRect 只缩小不放大，尺寸相同即未缩放、裁剪、留白或改变比例）。
+ * 指定了输出格式时始终使用转换结果，动图始终输出原格式；HEIF 无法直接使用，始终使用转换结果
+ */
+export function canPassThrough(
+  result: PassThroughResult,
+  original: PassThroughSource,
+  options: Pick<PipelineOptions, 'outputFormat' | 'watermark'>
+): boolean {
+  return (
+    (options.outputFormat === 'keep' || result.frameCount !== undefined) &&
+    !isHeifType(original.type) &&
+    !options.watermark &&
+    !result.colorProfile &&
+    result.outputType === original.type &&
+    result.width === result.sourceWidth &&
+    result.height === result.sourceHeight &&
+    result.blob.size > original.size
+  );
+}
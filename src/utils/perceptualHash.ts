@@ -0,0 +1,143 @@
+// 感知哈希：用于发现同一张照片的重复导入（如原图与重新导出的版本）
+// pHash：缩小到 32×32 灰度图做 DCT，取左上 8×8 低频系数与中位数比较得到 64 位指纹
+
+import { createCanvas, get2dContext } from './canvas';
+
+// 图片指纹：感知哈希（16 位十六进制）和原图尺寸
+export interface ImageFingerprint {
+  hash: string;
+  width: number;
+  height: number;
+}
+
+// 一组近似重复的图片
+export interface DuplicateGroup {
+  ids: string[];
+  similarity: number; // 组内最不相似的一对的相似度，0-1
+}
+
+const HASH_SIZE = 32;
+const LOW_FREQ = 8;
+const HASH_BITS = LOW_FREQ * LOW_FREQ;
+
+// 汉明距离不超过该值视为近似重复（约 85% 相似），可容忍重新压缩、缩放和轻微调色
+export const DUPLICATE_MAX_DISTANCE = 10;
+
+// DCT 余弦表：COS[u * N + x] = cos((2x + 1)uπ / 2N)
+const COS = (() => {
+  const table = new Float64Array(LOW_FREQ * HASH_SIZE);
+  for (let u = 0; u < LOW_FREQ; u += 1) {
+    for (let x = 0; x < HASH_SIZE; x += 1) {
+      table[u * HASH_SIZE + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SIZE));
+    }
+  }
+  return table;
+})();
+
+/**
+ * 计算图片的 64 位感知哈希
+ */
+export function computePerceptualHash(source: CanvasImageSource): string {
+  const canvas = createCanvas(HASH_SIZE, HASH_SIZE);
+  const ctx = get2dContext(canvas);
+  // 透明区域按白底处理，避免抠图与白底版本被判为不同
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, HASH_SIZE, HASH_SIZE);
+  ctx.drawImage(source, 0, 0, HASH_SIZE, HASH_SIZE);
+  const { data } = ctx.getImageData(0, 0, HASH_SIZE, HASH_SIZE);
+
+  const luma = new Float64Array(HASH_SIZE * HASH_SIZE);
+  for (let p = 0; p < luma.length; p += 1) {
+    luma[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+
+  // 只需左上 8×8 低频系数：先按行再按列做可分离 DCT
+  const rows = new Float64Array(HASH_SIZE * LOW_FREQ);
+  for (let y = 0; y < HASH_SIZE; y += 1) {
+    for (let u = 0; u < LOW_FREQ; u += 1) {
+      let sum = 0;
+      for (let x = 0; x < HASH_SIZE; x += 1) sum += luma[y * HASH_SIZE + x] * COS[u * HASH_SIZE + x];
+      rows[y * LOW_FREQ + u] = sum;
+    }
+  }
+  const coeffs = new Float64Array(HASH_BITS);
+  for (let v = 0; v < LOW_FREQ; v += 1) {
+    for (let u = 0; u < LOW_FREQ; u += 1) {
+      let sum = 0;
+      for (let y = 0; y < HASH_SIZE; y += 1) sum += rows[y * LOW_FREQ + u] * COS[v * HASH_SIZE + y];
+      coeffs[v * LOW_FREQ + u] = sum;
+    }
+  }
+
+  // 中位数不计直流分量（整体亮度）
+  const sorted = Array.from(coeffs.subarray(1)).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  let hex = '';
+  for (let i = 0; i < HASH_BITS; i += 4) {
+    let nibble = 0;
+    for (let b = 0; b < 4; b += 1) {
+      nibble = (nibble << 1) | (coeffs[i + b] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * 两个哈希的汉明距离（不同的位数）
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * 汉明距离换算为相似度（0-1）
+ */
+export const hashSimilarity = (a: string, b: string) => 1 - hammingDistance(a, b) / HASH_BITS;
+
+/**
+ * 把哈希距离不超过 maxDistance 的图片归为一组（传递合并），只返回包含两张及以上图片的组
+ */
+export function findDuplicateGroups(
+  items: Array<{ id: string; hash: string }>,
+  maxDistance = DUPLICATE_MAX_DISTANCE
+): DuplicateGroup[] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < items.length; i += 1) {
+    for (let j = i + 1; j < items.length; j += 1) {
+      if (hammingDistance(items[i].hash, items[j].hash) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), i]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  members.forEach((indexes) => {
+    if (indexes.length < 2) return;
+    let similarity = 1;
+    for (let a = 0; a < indexes.length; a += 1) {
+      for (let b = a + 1; b < indexes.length; b += 1) {
+        similarity = Math.min(similarity, hashSimilarity(items[indexes[a]].hash, items[indexes[b]].hash));
+      }
+    }
+    groups.push({ ids: indexes.map((i) => items[i].id), similarity });
+  });
+  return groups;
+}
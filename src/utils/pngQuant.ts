@@ -0,0 +1,216 @@
+// PNG 调色板量化：中位切分生成最多 256 色的调色板（保留透明度），可选 Floyd–Steinberg 抖动
+// 输出 8 位索引色 PNG，透明商品抠图通常可缩小 60-80% 且仍为 PNG
+
+import { type AnyCanvas, get2dContext } from './canvas';
+import { buildPngChunk } from './metadata';
+
+export interface QuantizeOptions {
+  colors: number; // 2-256
+  dither: boolean;
+}
+
+const MAX_SAMPLES = 65536;
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// 浏览器需支持 CompressionStream 才能生成 zlib 数据
+export const supportsPngQuantization = typeof CompressionStream !== 'undefined';
+
+type Box = { start: number; end: number; channel: number; range: number };
+
+// 计算盒子中范围最大的通道
+function measureBox(samples: Uint8Array, order: Uint32Array, start: number, end: number): Box {
+  const min = [255, 255, 255, 255];
+  const max = [0, 0, 0, 0];
+  for (let i = start; i < end; i += 1) {
+    const p = order[i] * 4;
+    for (let c = 0; c < 4; c += 1) {
+      const v = samples[p + c];
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  }
+  let channel = 0;
+  for (let c = 1; c < 4; c += 1) {
+    if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+  }
+  return { start, end, channel, range: max[channel] - min[channel] };
+}
+
+/**
+ * 中位切分：反复沿范围最大的通道在中位数处切开像素最多、跨度最大的盒子
+ */
+function medianCut(samples: Uint8Array, count: number, colors: number): number[][] {
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i += 1) order[i] = i;
+
+  const boxes: Box[] = [measureBox(samples, order, 0, count)];
+  while (boxes.length < colors) {
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      const score = box.range * (box.end - box.start);
+      if (box.end - box.start > 1 && score > bestScore) {
+        bestScore = score;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+
+    const { start, end, channel } = boxes[target];
+    order
+      .subarray(start, end)
+      .sort((a, b) => samples[a * 4 + channel] - samples[b * 4 + channel]);
+    const mid = start + ((end - start) >> 1);
+    boxes.splice(target, 1, measureBox(samples, order, start, mid), measureBox(samples, order, mid, end));
+  }
+
+  return boxes.map(({ start, end }) => {
+    const sum = [0, 0, 0, 0];
+    for (let i = start; i < end; i += 1) {
+      const p = order[i] * 4;
+      for (let c = 0; c < 4; c += 1) sum[c] += samples[p + c];
+    }
+    return sum.map((v) => Math.round(v / (end - start)));
+  });
+}
+
+/**
+ * 量化 RGBA 像素，返回调色板（半透明颜色排在前面，便于写 tRNS）和每个像素的索引
+ */
+export function quantize(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  { colors, dither }: QuantizeOptions
+): { palette: number[][]; indices: Uint8Array } {
+  const pixels = width * height;
+  const step = Math.max(1, Math.floor(pixels / MAX_SAMPLES));
+  const samples = new Uint8Array(Math.ceil(pixels / step) * 4);
+  let sampleCount = 0;
+  let hasTransparent = false;
+
+  for (let p = 0; p < pixels; p += 1) {
+    if (data[p * 4 + 3] === 0) {
+      hasTransparent = true;
+    } else if (p % step === 0) {
+      samples.set(data.subarray(p * 4, p * 4 + 4), sampleCount * 4);
+      sampleCount += 1;
+    }
+  }
+
+  // 完全透明的像素共用一个调色板项
+  const limit = Math.max(1, Math.min(256, colors) - (hasTransparent ? 1 : 0));
+  const palette = sampleCount ? medianCut(samples, sampleCount, limit) : [];
+  if (hasTransparent) palette.push([0, 0, 0, 0]);
+  palette.sort((a, b) => (a[3] === 255 ? 1 : 0) - (b[3] === 255 ? 1 : 0));
+  const transparentIndex = palette.findIndex((c) => c[3] === 0);
+
+  // 最近颜色查找缓存：每通道取高 5 位
+  const cache = new Int16Array(1 << 20).fill(-1);
+  const nearest = (r: number, g: number, b: number, a: number) => {
+    const key = ((r >> 3) << 15) | ((g >> 3) << 10) | ((b >> 3) << 5) | (a >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0;
+    let bestDistance = Infinity;
+    palette.forEach((c, i) => {
+      const distance = (r - c[0]) ** 2 + (g - c[1]) ** 2 + (b - c[2]) ** 2 + (a - c[3]) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    cache[key] = best;
+    return best;
+  };
+
+  const indices = new Uint8Array(pixels);
+  let errors = new Float32Array((width + 2) * 4);
+  let nextErrors = new Float32Array((width + 2) * 4);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+  const value = new Uint8Array(4);
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const p = y * width + x;
+      if (data[p * 4 + 3] === 0 && transparentIndex >= 0) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+      const e = (x + 1) * 4;
+      for (let c = 0; c < 4; c += 1) {
+        value[c] = clamp(data[p * 4 + c] + (dither ? errors[e + c] : 0));
+      }
+      const index = nearest(value[0], value[1], value[2], value[3]);
+      indices[p] = index;
+
+      if (dither) {
+        const chosen = palette[index];
+        for (let c = 0; c < 4; c += 1) {
+          const error = value[c] - chosen[c];
+          errors[e + 4 + c] += (error * 7) / 16;
+          nextErrors[e - 4 + c] += (error * 3) / 16;
+          nextErrors[e + c] += (error * 5) / 16;
+          nextErrors[e + 4 + c] += error / 16;
+        }
+      }
+    }
+    if (dither) {
+      [errors, nextErrors] = [nextErrors, errors];
+      nextErrors.fill(0);
+    }
+  }
+
+  return { palette, indices };
+}
+
+async function zlibDeflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * 写出 8 位索引色 PNG
+ */
+async function encodeIndexedPng(
+  width: number,
+  height: number,
+  palette: number[][],
+  indices: Uint8Array
+): Promise<Blob> {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr.set([8, 3, 0, 0, 0], 8); // 8 位深度，索引色，无隔行
+
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach((c, i) => plte.set(c.slice(0, 3), i * 3));
+  const alphaCount = palette.filter((c) => c[3] < 255).length;
+  const trns = new Uint8Array(palette.slice(0, alphaCount).map((c) => c[3]));
+
+  // 每行前加过滤类型 0
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    raw.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const chunks = [
+    PNG_SIGNATURE,
+    buildPngChunk('IHDR', ihdr),
+    buildPngChunk('PLTE', plte),
+    ...(alphaCount ? [buildPngChunk('tRNS', trns)] : []),
+    buildPngChunk('IDAT', await zlibDeflate(raw)),
+    buildPngChunk('IEND', new Uint8Array(0))
+  ];
+  return new Blob(chunks as BlobPart[], { type: 'image/png' });
+}
+
+/**
+ * 将画布量化为调色板 PNG
+ */
+export async function encodeQuantizedPng(canvas: AnyCanvas, options: QuantizeOptions): Promise<Blob> {
+  const { width, height } = canvas;
+  const { data } = get2dContext(canvas).getImageData(0, 0, width, height);
+  const { palette, indices } = quantize(data, width, height, options);
+  return encodeIndexedPng(width, height, palette, indices);
+}
@@ -0,0 +1,168 @@
+// 图片质量检查：处理前发现模糊、分辨率不足、高光/暗部溢出和极端比例的图片
+// 平台会把过小的图片放大显示，模糊或过曝的图片也会拉低商品页质量
+
+import { createCanvas, get2dContext } from './canvas';
+import type { ResizeTarget } from './resize';
+
+// 与预设无关的检查结果，导入时计算一次
+export interface ImageAudit {
+  width: number;
+  height: number;
+  sharpness: number; // 纹理最丰富区域的拉普拉斯方差，越小越模糊
+  highlightClip: number; // 主体内高光溢出的像素比例，0-1
+  shadowClip: number; // 主体内暗部溢出的像素比例，0-1
+}
+
+export type AuditWarning =
+  | { kind: 'blur'; sharpness: number }
+  | { kind: 'lowResolution'; width: number; height: number; required: ResizeTarget }
+  | { kind: 'highlights'; ratio: number }
+  | { kind: 'shadows'; ratio: number }
+  | { kind: 'extremeAspect'; ratio: number };
+
+const ANALYSIS_SIZE = 1024; // 分析用的最长边：缩得太小会掩盖模糊
+const BLOCK = 32;
+const TOP_BLOCKS = 0.1; // 取方差最高的 10% 区块，避免大面积纯色背景拉低评分
+const HIGHLIGHT_LUMA = 250;
+const SHADOW_LUMA = 5;
+
+export const BLUR_THRESHOLD = 100;
+export const CLIP_THRESHOLD = 0.03;
+export const EXTREME_ASPECT = 3; // 长边 / 短边
+// 未选择尺寸预设时的最低建议尺寸（多数平台放大镜功能需要 800px 以上）
+export const DEFAULT_MIN_RESOLUTION: ResizeTarget = { mode: 'fit', width: 800, height: 800 };
+
+/**
+ * 清晰度：按区块计算拉普拉斯算子响应的方差，取最清晰的一部分区块的平均值
+ */
+function measureSharpness(luma: Float32Array, w: number, h: number): number {
+  const variances: number[] = [];
+  for (let by = 1; by < h - 1; by += BLOCK) {
+    for (let bx = 1; bx < w - 1; bx += BLOCK) {
+      let sum = 0;
+      let sumSq = 0;
+      let n = 0;
+      for (let y = by; y < Math.min(by + BLOCK, h - 1); y += 1) {
+        for (let x = bx; x < Math.min(bx + BLOCK, w - 1); x += 1) {
+          const p = y * w + x;
+          const lap = luma[p - 1] + luma[p + 1] + luma[p - w] + luma[p + w] - 4 * luma[p];
+          sum += lap;
+          sumSq += lap * lap;
+          n += 1;
+        }
+      }
+      if (n > 0) variances.push(sumSq / n - (sum / n) ** 2);
+    }
+  }
+  if (!variances.length) return 0;
+  variances.sort((a, b) => b - a);
+  const top = variances.slice(0, Math.max(1, Math.round(variances.length * TOP_BLOCKS)));
+  return top.reduce((acc, v) => acc + v, 0) / top.length;
+}
+
+/**
+ * 溢出比例：从画面边缘出发填充相连的溢出像素（纯白/纯黑背景），
+ * 只统计剩下的、位于主体内部的溢出像素
+ */
+function measureClipping(clipped: Uint8Array, w: number, h: number): number {
+  const visited = new Uint8Array(w * h);
+  const stack: number[] = [];
+  const push = (p: number) => {
+    if (clipped[p] && !visited[p]) {
+      visited[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < w; x += 1) {
+    push(x);
+    push((h - 1) * w + x);
+  }
+  for (let y = 0; y < h; y += 1) {
+    push(y * w);
+    push(y * w + w - 1);
+  }
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % w;
+    if (x > 0) push(p - 1);
+    if (x < w - 1) push(p + 1);
+    if (p >= w) push(p - w);
+    if (p < w * (h - 1)) push(p + w);
+  }
+
+  let count = 0;
+  for (let p = 0; p < clipped.length; p += 1) {
+    if (clipped[p] && !visited[p]) count += 1;
+  }
+  return count / clipped.length;
+}
+
+/**
+ * 分析已解码的图片，width/height 为原图尺寸
+ */
+export function auditBitmap(bitmap: ImageBitmap): ImageAudit {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+  const w = Math.max(3, Math.round(bitmap.width * scale));
+  const h = Math.max(3, Math.round(bitmap.height * scale));
+  const canvas = createCanvas(w, h);
+  const ctx = get2dContext(canvas);
+  // 透明区域按白底处理，与透明背景抠图的常见展示方式一致
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, w, h);
+  ctx.drawImage(bitmap, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const luma = new Float32Array(w * h);
+  const highlights = new Uint8Array(w * h);
+  const shadows = new Uint8Array(w * h);
+  for (let p = 0; p < luma.length; p += 1) {
+    const value = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+    luma[p] = value;
+    highlights[p] = value >= HIGHLIGHT_LUMA ? 1 : 0;
+    shadows[p] = value <= SHADOW_LUMA ? 1 : 0;
+  }
+
+  return {
+    width: bitmap.width,
+    height: bitmap.height,
+    sharpness: measureSharpness(luma, w, h),
+    highlightClip: measureClipping(highlights, w, h),
+    shadowClip: measureClipping(shadows, w, h)
+  };
+}
+
+/**
+ * 图片是否达不到目标尺寸（需要平台放大显示）。
+ * fit 按最长边比较；exact 需要裁剪后仍覆盖目标宽高
+ */
+const isBelowTarget = (width: number, height: number, target: ResizeTarget) =>
+  target.mode === 'fit'
+    ? Math.max(width, height) < Math.max(target.width, target.height)
+    : width < target.width || height < target.height;
+
+/**
+ * 根据检查结果和当前尺寸预设生成警告，未选择预设时按 DEFAULT_MIN_RESOLUTION 检查分辨率
+ */
+export function auditWarnings(audit: ImageAudit, target: ResizeTarget | null): AuditWarning[] {
+  const warnings: AuditWarning[] = [];
+  const { width, height } = audit;
+  const required = target ?? DEFAULT_MIN_RESOLUTION;
+
+  if (audit.sharpness < BLUR_THRESHOLD) {
+    warnings.push({ kind: 'blur', sharpness: audit.sharpness });
+  }
+  if (isBelowTarget(width, height, required)) {
+    warnings.push({ kind: 'lowResolution', width, height, required });
+  }
+  if (audit.highlightClip > CLIP_THRESHOLD) {
+    warnings.push({ kind: 'highlights', ratio: audit.highlightClip });
+  }
+  if (audit.shadowClip > CLIP_THRESHOLD) {
+    warnings.push({ kind: 'shadows', ratio: audit.shadowClip });
+  }
+  const aspect = Math.max(width, height) / Math.max(1, Math.min(width, height));
+  if (aspect > EXTREME_ASPECT) {
+    warnings.push({ kind: 'extremeAspect', ratio: aspect });
+  }
+  return warnings;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { computeDrawRect } from './resize';
+
+describe('computeDrawRect', () => {
+  it('keeps the source untouched without a ratio or target', () => {
+    expect(computeDrawRect(800, 600, null, null)).toMatchObject({
+      sx: 0,
+      sy: 0,
+      sWidth: 800,
+      sHeight: 600,
+      targetWidth: 800,
+      targetHeight: 600
+    });
+  });
+
+  it('centre-crops to the aspect ratio', () => {
+    expect(computeDrawRect(1200, 800, 1, null)).toMatchObject({
+      sx: 200,
+      sy: 0,
+      sWidth: 800,
+      sHeight: 800,
+      targetWidth: 800,
+      targetHeight: 800
+    });
+  });
+
+  it('fits within the longest edge and never enlarges', () => {
+    const fit = { mode: 'fit' as const, width: 1000, height: 1000 };
+    expect(computeDrawRect(2000, 1000, null, fit)).toMatchObject({ targetWidth: 1000, targetHeight: 500 });
+    expect(computeDrawRect(400, 300, null, fit)).toMatchObject({ targetWidth: 400, targetHeight: 300 });
+  });
+
+  it('uses the exact size ratio over the aspect ratio', () => {
+    const rect = computeDrawRect(1000, 1000, 4 / 3, { mode: 'exact', width: 400, height: 200 });
+    expect(rect).toMatchObject({ sWidth: 1000, sHeight: 500, targetWidth: 400, targetHeight: 200 });
+  });
+
+  it('pads instead of cropping', () => {
+    const rect = computeDrawRect(1000, 500, 1, { mode: 'fit', width: 500, height: 500 }, 'pad');
+    expect(rect).toMatchObject({
+      sWidth: 1000,
+      sHeight: 500,
+      targetWidth: 500,
+      targetHeight: 500,
+      dx: 0,
+      dy: 125,
+      dWidth: 500,
+      dHeight: 250
+    });
+  });
+
+  it('follows the subject in smart mode and stays inside the image', () => {
+    const right = computeDrawRect(1000, 500, 1, null, 'smart', { x: 0.55, y: 0.2, width: 0.1, height: 0.6 });
+    expect(right.sx).toBeCloseTo(350);
+    const edge = computeDrawRect(1000, 500, 1, null, 'smart', { x: 0.95, y: 0, width: 0.05, height: 1 });
+    expect(edge.sx).toBe(500);
+    expect(computeDrawRect(1000, 500, 1, null, 'smart').sx).toBe(250);
+  });
+});
@@ -0,0 +1,104 @@
+// 尺寸计算：裁剪区域与输出画布尺寸
+
+import type { SubjectBox } from './smartCrop';
+
+// fit：等比缩放至不超过 width×height（最长边限制）
+// exact：按目标比例裁剪或留白，并缩放为精确的 width×height
+export type ResizeMode = 'fit' | 'exact';
+
+// crop：居中裁剪到目标比例；smart：裁剪窗口跟随商品主体；pad：完整保留图片，四周留白补足目标比例
+export type FitMode = 'crop' | 'smart' | 'pad';
+
+export interface ResizeTarget {
+  mode: ResizeMode;
+  width: number;
+  height: number;
+}
+
+export interface DrawRect {
+  // 源图裁剪区域
+  sx: number;
+  sy: number;
+  sWidth: number;
+  sHeight: number;
+  // 画布中的绘制区域（留白模式下小于画布）
+  dx: number;
+  dy: number;
+  dWidth: number;
+  dHeight: number;
+  targetWidth: number;
+  targetHeight: number;
+}
+
+// 让长度为 size 的窗口以 center 为中心，并限制在 [0, total] 内
+const placeWindow = (center: number, size: number, total: number) =>
+  Math.min(Math.max(0, center - size / 2), total - size);
+
+/**
+ * 计算源图裁剪区域、绘制区域和目标画布尺寸。
+ * 只缩小不放大，避免低分辨率图片被拉伸模糊。
+ * smart 模式下裁剪窗口以主体区域（focus）为中心，未提供时退化为居中裁剪。
+ */
+export function computeDrawRect(
+  width: number,
+  height: number,
+  aspectRatio: number | null,
+  resize: ResizeTarget | null,
+  fit: FitMode = 'crop',
+  focus: SubjectBox | null = null
+): DrawRect {
+  // 精确宽×高优先于比例设置
+  const targetRatio = resize?.mode === 'exact' ? resize.width / resize.height : aspectRatio;
+
+  let sWidth = width;
+  let sHeight = height;
+  let canvasWidth = width;
+  let canvasHeight = height;
+
+  if (targetRatio !== null) {
+    const wider = width / height > targetRatio;
+    if (fit === 'pad') {
+      // 画布扩展到目标比例，图片保持完整
+      if (wider) {
+        canvasHeight = Math.round(width / targetRatio);
+      } else {
+        canvasWidth = Math.round(height * targetRatio);
+      }
+    } else if (wider) {
+      sWidth = Math.round(height * targetRatio);
+      canvasWidth = sWidth;
+    } else {
+      sHeight = Math.round(width / targetRatio);
+      canvasHeight = sHeight;
+    }
+  }
+
+  const scale = resize
+    ? Math.min(1, resize.width / canvasWidth, resize.height / canvasHeight)
+    : 1;
+  const targetWidth = Math.max(1, Math.round(canvasWidth * scale));
+  const targetHeight = Math.max(1, Math.round(canvasHeight * scale));
+  const dWidth = fit === 'pad' ? Math.max(1, Math.round(sWidth * scale)) : targetWidth;
+  const dHeight = fit === 'pad' ? Math.max(1, Math.round(sHeight * scale)) : targetHeight;
+
+  const subject = fit === 'smart' ? focus : null;
+  const sx = subject
+    ? placeWindow((subject.x + subject.width / 2) * width, sWidth, width)
+    : (width - sWidth) / 2;
+  const sy = subject
+    ? placeWindow((subject.y + subject.height / 2) * height, sHeight, height)
+    : (height - sHeight) / 2;
+
+  return {
+    sx,
+    sy,
+    sWidth,
+    sHeight,
+    dx: Math.round((targetWidth - dWidth) / 2),
+    dy: Math.round((targetHeight - dHeight) / 2),
+    dWidth,
+    dHeight,
+    targetWidth,
+    targetHeight
+  };
+}
@@ -0,0 +1,61 @@
+// 响应式图片：按多个宽度生成变体，并输出 srcset / <picture> 代码片段
+
+export interface ResponsiveVariant {
+  name: string;
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+export interface SrcsetSource {
+  seoName: string;
+  width: number;
+  height: number;
+  outputType: string;
+  variants: ResponsiveVariant[];
+  alt?: string;
+}
+
+export const DEFAULT_VARIANT_WIDTHS = [480, 800, 1200, 2048];
+
+/**
+ * 解析用户输入的宽度列表，如 "480, 800 1200"
+ */
+export function parseVariantWidths(value: string): number[] {
+  const widths = value
+    .split(/[\s,，]+/)
+    .map((w) => parseInt(w, 10))
+    .filter((w) => Number.isFinite(w) && w > 0);
+  return Array.from(new Set(widths)).sort((a, b) => a - b);
+}
+
+/**
+ * 变体文件名：{seoName}-{width}w.{ext}
+ */
+export function variantName(seoName: string, width: number, ext: string): string {
+  const base = seoName.replace(/\.[^.]+$/, '');
+  return `${base}-${width}w.${ext}`;
+}
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+/**
+ * 生成单张图片的 <picture> 片段，主图作为最大宽度的候选。
+ * variantPath 为变体文件相对主图的目录前缀。
+ */
+export function buildPictureSnippet(source: SrcsetSource, variantPath = ''): string {
+  const entries = [
+    ...source.variants.map((v) => `${variantPath}${v.name} ${v.width}w`),
+    `${source.seoName} ${source.width}w`
+  ];
+  const srcset = entries.join(', ');
+  const alt = escapeAttr(source.alt ?? '');
+
+  return [
+    '<picture>',
+    `  <source type="${source.outputType}" srcset="${srcset}" sizes="(max-width: 768px) 100vw, 50vw">`,
+    `  <img src="${source.seoName}" srcset="${srcset}" sizes="(max-width: 768px) 100vw, 50vw" width="${source.width}" height="${source.height}" alt="${alt}" loading="lazy" decoding="async">`,
+    '</picture>'
+  ].join('\n');
+}
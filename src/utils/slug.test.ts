@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { applySlugPolicy, DEFAULT_SLUG_POLICY, detectStuffing, stripChineseStopWords } from './slug';
+
+describe('applySlugPolicy', () => {
+  it('removes stop words and duplicate words', () => {
+    expect(applySlugPolicy('the-red-dress-with-red-belt', DEFAULT_SLUG_POLICY)).toBe('red-dress-belt');
+  });
+
+  it('keeps repeated numbers and the original words when only stop words remain', () => {
+    expect(applySlugPolicy('poster-800-800', DEFAULT_SLUG_POLICY)).toBe('poster-800-800');
+    expect(applySlugPolicy('the-and', DEFAULT_SLUG_POLICY)).toBe('the-and');
+  });
+
+  it('truncates at a word boundary but keeps the first word', () => {
+    const policy = { removeStopWords: false, dedupe: false, maxLength: 12 };
+    expect(applySlugPolicy('summer-linen-dress', policy)).toBe('summer-linen');
+    expect(applySlugPolicy('extraordinarily-long', { ...policy, maxLength: 5 })).toBe('extraordinarily');
+  });
+
+  it('leaves the slug alone when every rule is off', () => {
+    expect(applySlugPolicy('a-a-b', { removeStopWords: false, dedupe: false, maxLength: 0 })).toBe('a-a-b');
+  });
+});
+
+describe('stripChineseStopWords', () => {
+  it('only removes the possessive particle', () => {
+    expect(stripChineseStopWords('红色的和服')).toBe('红色 和服');
+  });
+});
+
+describe('detectStuffing', () => {
+  it('flags repeated or excessive words', () => {
+    expect(detectStuffing('red-dress-03')).toBeNull();
+    expect(detectStuffing('dress-red-dress')).toEqual({ repeated: ['dress'], words: 3 });
+    expect(detectStuffing('a-b-c-d-e-f-g-h-i')?.words).toBe(9);
+  });
+});
@@ -0,0 +1,166 @@
+// 文件名转写：把中文关键词转为拼音或英文，生成纯 ASCII 的文件名（不少平台和 CDN 会把中文 URL 编码成 %E7%9C%9F...）
+// 完全离线：拼音来自 pinyin-pro 内置字典，英文来自文件名关键词词典，词典未收录的词回退为拼音
+
+import { pinyin } from 'pinyin-pro';
+import { FILENAME_DICTIONARIES } from './filenameDictionaries';
+
+// keep：保留中文；pinyin：转为拼音；english：按词典转为英文
+export type SlugMode = 'keep' | 'pinyin' | 'english';
+
+// 手动修改的转写结果：中文片段 -> 转写
+export type SlugOverrides = Record<string, string>;
+
+// 关键词中的一个中文片段及其转写
+export interface SlugSegment {
+  source: string;
+  value: string;
+  overridden: boolean;
+}
+
+const CJK_RUN = /[\u4e00-\u9fa5]+/g;
+const CJK_ONLY = /^[\u4e00-\u9fa5]+$/;
+
+// 单字词只收录颜色和材质（如 红、棉），其他类别的单字（如尺寸中的 大、中）在词组里歧义太大
+const SINGLE_CHAR_GROUPS = ['colors', 'materials'];
+
+// 中文词 -> 英文关键词，同一个词出现在多个类别时取先出现的
+const GLOSSARY = (() => {
+  const glossary = new Map<string, string>();
+  for (const [group, dictionary] of Object.entries(FILENAME_DICTIONARIES)) {
+    for (const [english, patterns] of Object.entries(dictionary)) {
+      patterns.forEach((pattern) => {
+        if (!CJK_ONLY.test(pattern)) return;
+        if (pattern.length < 2 && !SINGLE_CHAR_GROUPS.includes(group)) return;
+        if (!glossary.has(pattern)) glossary.set(pattern, english);
+      });
+    }
+  }
+  return glossary;
+})();
+
+const MAX_TERM_LENGTH = Math.max(...Array.from(GLOSSARY.keys(), (term) => term.length));
+
+export const hasChinese = (text: string) => /[\u4e00-\u9fa5]/.test(text);
+
+/**
+ * 按词典做正向最长匹配切分连续的中文；词典外的相邻汉字合并为一个片段
+ */
+function splitWords(run: string): string[] {
+  const words: string[] = [];
+  let pending = '';
+  let i = 0;
+  while (i < run.length) {
+    let length = Math.min(MAX_TERM_LENGTH, run.length - i);
+    while (length > 0 && !GLOSSARY.has(run.slice(i, i + length))) length -= 1;
+    if (length === 0) {
+      pending += run[i];
+      i += 1;
+      continue;
+    }
+    if (pending) words.push(pending);
+    pending = '';
+    words.push(run.slice(i, i + length));
+    i += length;
+  }
+  if (pending) words.push(pending);
+  return words;
+}
+
+// 不带声调的拼音，同一个词的音节连写（ü 写作 v）
+const toPinyin = (word: string) => pinyin(word, { toneType: 'none', type: 'array', v: true }).join('');
+
+const convertWord = (word: string, mode: SlugMode) =>
+  mode === 'english' ? GLOSSARY.get(word) ?? toPinyin(word) : toPinyin(word);
+
+/**
+ * 关键词中的中文片段（去重）及其转写结果，用于预览和逐个修改
+ */
+export function slugSegments(text: string, mode: SlugMode, overrides: SlugOverrides = {}): SlugSegment[] {
+  if (mode === 'keep') return [];
+  const seen = new Set<string>();
+  const segments: SlugSegment[] = [];
+  for (const [run] of text.matchAll(CJK_RUN)) {
+    splitWords(run).forEach((source) => {
+      if (seen.has(source)) return;
+      seen.add(source);
+      const override = overrides[source]?.trim();
+      segments.push({ source, value: override || convertWord(source, mode), overridden: !!override });
+    });
+  }
+  return segments;
+}
+
+/**
+ * 把文本中的中文转写为拼音或英文，各片段之间以空格分隔（随后由文件名清洗转为连字符）
+ */
+export function transliterate(text: string, mode: SlugMode, overrides: SlugOverrides = {}): string {
+  if (mode === 'keep') return text;
+  return text.replace(CJK_RUN, (run) =>
+    ` ${splitWords(run)
+      .map((word) => overrides[word]?.trim() || convertWord(word, mode))
+      .join(' ')} `
+  );
+}
+
+// 关键词精简规则：去掉停用词、合并重复词、按单词边界限制长度
+export interface SlugPolicy {
+  removeStopWords: boolean;
+  dedupe: boolean;
+  maxLength: number; // 关键词部分的最大字符数，0 表示不限
+}
+
+export const DEFAULT_SLUG_POLICY: SlugPolicy = { removeStopWords: true, dedupe: true, maxLength: 60 };
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'and', 'or', 'with', 'of', 'for', 'in', 'on', 'to', 'by']);
+// 中文只去掉“的”：和、与、及等字常出现在词语中（如 和服、及膝）
+const CHINESE_STOP_WORDS = /\u7684/g;
+
+// 文件名中（除数字外）超过该词数视为堆砌关键词
+export const MAX_SLUG_WORDS = 8;
+
+const isNumeric = (word: string) => /^\d+$/.test(word);
+
+/**
+ * 去掉中文停用词，需在转写前调用（转写后“的”会变成无法识别的 de）
+ */
+export const stripChineseStopWords = (text: string) => text.replace(CHINESE_STOP_WORDS, ' ');
+
+/**
+ * 按规则精简已清洗的关键词（连字符分隔）。去掉停用词后为空时保留原词；
+ * 数字不参与去重（如 800-800），长度限制按整词截断，至少保留第一个词
+ */
+export function applySlugPolicy(slug: string, policy: SlugPolicy): string {
+  let words = slug.split('-').filter(Boolean);
+  if (policy.removeStopWords) {
+    const kept = words.filter((word) => !STOP_WORDS.has(word));
+    if (kept.length) words = kept;
+  }
+  if (policy.dedupe) {
+    words = words.filter((word, i) => isNumeric(word) || words.indexOf(word) === i);
+  }
+  if (policy.maxLength > 0) {
+    let length = -1;
+    const limit = words.findIndex((word, i) => {
+      length += word.length + 1;
+      return i > 0 && length > policy.maxLength;
+    });
+    if (limit !== -1) words = words.slice(0, limit);
+  }
+  return words.join('-');
+}
+
+// 文件名堆砌关键词的迹象：重复出现的词，或词数过多
+export interface StuffingWarning {
+  repeated: string[];
+  words: number;
+}
+
+/**
+ * 检查生成的文件名（不含扩展名）是否堆砌关键词，正常时返回 null
+ */
+export function detectStuffing(name: string): StuffingWarning | null {
+  const words = name.split(/[-_]+/).filter((word) => word && !isNumeric(word));
+  const repeated = words.filter((word, i) => words.indexOf(word) !== i);
+  if (!repeated.length && words.length <= MAX_SLUG_WORDS) return null;
+  return { repeated: Array.from(new Set(repeated)), words: words.length };
+}
@@ -0,0 +1,119 @@
+// 智能裁剪：在缩小的图片上分析边缘和与背景的色差，找出商品主体所在区域
+
+import { createCanvas, get2dContext } from './canvas';
+
+// 主体区域（相对坐标，0-1）
+export interface SubjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 预览用的分析结果：主体区域和原图尺寸
+export interface SubjectAnalysis {
+  box: SubjectBox;
+  width: number;
+  height: number;
+}
+
+const ANALYSIS_SIZE = 96; // 分析用的最长边，足够定位主体且速度快
+const MIN_ENERGY = 48;
+const TRIM_RATIO = 0.02; // 两端各忽略 2% 的零散噪点
+
+const FULL_FRAME: SubjectBox = { x: 0, y: 0, width: 1, height: 1 };
+
+// 按投影计数裁掉两端稀疏部分，返回 [start, end)
+function trimProfile(profile: number[], total: number): [number, number] {
+  const limit = total * TRIM_RATIO;
+  let start = 0;
+  let acc = 0;
+  while (start < profile.length - 1 && acc + profile[start] <= limit) {
+    acc += profile[start];
+    start += 1;
+  }
+  let end = profile.length;
+  acc = 0;
+  while (end > start + 1 && acc + profile[end - 1] <= limit) {
+    acc += profile[end - 1];
+    end -= 1;
+  }
+  return [start, end];
+}
+
+/**
+ * 找出图片主体的包围盒。
+ * 能量 = 与边缘背景色的差异 + 亮度梯度，高于阈值的像素视为主体
+ */
+export function findSubjectBox(bitmap: ImageBitmap): SubjectBox {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+  const w = Math.max(3, Math.round(bitmap.width * scale));
+  const h = Math.max(3, Math.round(bitmap.height * scale));
+  const canvas = createCanvas(w, h);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(bitmap, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  // 背景色：边缘像素平均值
+  let br = 0;
+  let bg = 0;
+  let bb = 0;
+  let count = 0;
+  for (let y = 0; y < h; y += 1) {
+    for (let x = 0; x < w; x += 1) {
+      if (x !== 0 && y !== 0 && x !== w - 1 && y !== h - 1) continue;
+      const i = (y * w + x) * 4;
+      br += data[i];
+      bg += data[i + 1];
+      bb += data[i + 2];
+      count += 1;
+    }
+  }
+  br /= count;
+  bg /= count;
+  bb /= count;
+
+  const luma = new Float32Array(w * h);
+  for (let p = 0; p < w * h; p += 1) {
+    luma[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+
+  const energy = new Float32Array(w * h);
+  let sum = 0;
+  for (let y = 1; y < h - 1; y += 1) {
+    for (let x = 1; x < w - 1; x += 1) {
+      const p = y * w + x;
+      const i = p * 4;
+      if (data[i + 3] < 128) continue; // 透明像素不是主体
+      const colorDiff = Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb);
+      const gradient =
+        Math.abs(luma[p + 1] - luma[p - 1]) + Math.abs(luma[p + w] - luma[p - w]);
+      energy[p] = colorDiff + 2 * gradient;
+      sum += energy[p];
+    }
+  }
+
+  const threshold = Math.max(MIN_ENERGY, sum / ((w - 2) * (h - 2)));
+  const columns = new Array<number>(w).fill(0);
+  const rows = new Array<number>(h).fill(0);
+  let total = 0;
+  for (let y = 1; y < h - 1; y += 1) {
+    for (let x = 1; x < w - 1; x += 1) {
+      if (energy[y * w + x] > threshold) {
+        columns[x] += 1;
+        rows[y] += 1;
+        total += 1;
+      }
+    }
+  }
+  if (total === 0) return FULL_FRAME;
+
+  const [left, right] = trimProfile(columns, total);
+  const [top, bottom] = trimProfile(rows, total);
+  return {
+    x: left / w,
+    y: top / h,
+    width: (right - left) / w,
+    height: (bottom - top) / h
+  };
+}
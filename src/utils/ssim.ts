@@ -0,0 +1,92 @@
+// 感知质量：在缩小的亮度通道上计算 SSIM，用于发现色带、块状等压缩瑕疵
+
+import { createCanvas, get2dContext, type AnyCanvas } from './canvas';
+
+// 默认的 SSIM 下限，0 表示不检查
+export const DEFAULT_MIN_SSIM = 0.96;
+
+const SSIM_SIZE = 512; // 比较用的最长边
+const WINDOW = 8;
+const STRIDE = 4;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+interface LumaPlane {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+function lumaPlane(source: CanvasImageSource, width: number, height: number): LumaPlane {
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let p = 0; p < luma.length; p += 1) {
+    luma[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+  return { width, height, data: luma };
+}
+
+/**
+ * 两个同尺寸亮度平面的平均 SSIM（8×8 滑动窗口，步长 4），取值约 0-1
+ */
+function computeSsim(a: LumaPlane, b: LumaPlane): number {
+  const { width, height } = a;
+  const n = WINDOW * WINDOW;
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y + WINDOW <= height; y += STRIDE) {
+    for (let x = 0; x + WINDOW <= width; x += STRIDE) {
+      let sumA = 0;
+      let sumB = 0;
+      let sumAA = 0;
+      let sumBB = 0;
+      let sumAB = 0;
+      for (let wy = 0; wy < WINDOW; wy += 1) {
+        const row = (y + wy) * width + x;
+        for (let wx = 0; wx < WINDOW; wx += 1) {
+          const va = a.data[row + wx];
+          const vb = b.data[row + wx];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total +=
+        ((2 * meanA * meanB + C1) * (2 * cov + C2)) /
+        ((meanA * meanA + meanB * meanB + C1) * (varA + varB + C2));
+      windows += 1;
+    }
+  }
+
+  return windows ? total / windows : 1;
+}
+
+/**
+ * 以已绘制的画布为参考，返回给编码结果打分的函数（主线程和 Worker 中均可使用）
+ */
+export function createSsimScorer(reference: AnyCanvas): (blob: Blob) => Promise<number> {
+  const scale = Math.min(1, SSIM_SIZE / Math.max(reference.width, reference.height));
+  const width = Math.max(WINDOW, Math.round(reference.width * scale));
+  const height = Math.max(WINDOW, Math.round(reference.height * scale));
+  const referencePlane = lumaPlane(reference, width, height);
+
+  return async (blob: Blob) => {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return computeSsim(referencePlane, lumaPlane(bitmap, width, height));
+    } finally {
+      bitmap.close();
+    }
+  };
+}
@@ -0,0 +1,112 @@
+// 水印叠加：在编码前把文字或 Logo 绘制到画布上，支持位置、不透明度、相对尺寸和平铺
+
+import type { Canvas2D } from './canvas';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right';
+
+export interface WatermarkOptions {
+  type: 'text' | 'logo';
+  text: string;
+  logo: Blob | null; // 以 Blob 传给 Worker，在绘制时解码
+  position: WatermarkPosition;
+  opacity: number; // 0-1
+  scale: number; // 水印宽度占图片宽度的比例，0-1
+  tile: boolean;
+}
+
+export const DEFAULT_WATERMARK: WatermarkOptions = {
+  type: 'text',
+  text: '',
+  logo: null,
+  position: 'bottom-right',
+  opacity: 0.5,
+  scale: 0.2,
+  tile: false
+};
+
+const MARGIN_RATIO = 0.03;
+const TILE_GAP = 1.5; // 平铺时水印之间的间距（相对水印尺寸）
+const TILE_ANGLE = -Math.PI / 6;
+
+type Mark = { width: number; height: number; draw: (x: number, y: number) => void };
+
+// 文字水印：按目标宽度换算字号，白字加阴影以适应深浅背景
+function textMark(ctx: Canvas2D, text: string, width: number): Mark {
+  ctx.font = '100px sans-serif';
+  const fontSize = Math.max(8, (100 * width) / Math.max(1, ctx.measureText(text).width));
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = fontSize / 10;
+  return {
+    width: ctx.measureText(text).width,
+    height: fontSize,
+    draw: (x, y) => ctx.fillText(text, x, y)
+  };
+}
+
+function logoMark(ctx: Canvas2D, logo: ImageBitmap, width: number): Mark {
+  const height = (logo.height * width) / logo.width;
+  return { width, height, draw: (x, y) => ctx.drawImage(logo, x, y, width, height) };
+}
+
+function placeMark(mark: Mark, position: WatermarkPosition, width: number, height: number) {
+  const margin = Math.min(width, height) * MARGIN_RATIO;
+  const left = margin;
+  const right = width - mark.width - margin;
+  const top = margin;
+  const bottom = height - mark.height - margin;
+  switch (position) {
+    case 'top-left':
+      return [left, top];
+    case 'top-right':
+      return [right, top];
+    case 'bottom-left':
+      return [left, bottom];
+    case 'center':
+      return [(width - mark.width) / 2, (height - mark.height) / 2];
+    default:
+      return [right, bottom];
+  }
+}
+
+/**
+ * 在 width×height 的画布上绘制水印；文字为空或没有 Logo 时不做任何处理
+ */
+export async function drawWatermark(
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  options: WatermarkOptions
+): Promise<void> {
+  const text = options.text.trim();
+  if (options.type === 'text' ? !text : !options.logo) return;
+
+  const logo = options.type === 'logo' ? await createImageBitmap(options.logo!) : null;
+  const markWidth = Math.max(1, width * options.scale);
+
+  ctx.save();
+  ctx.globalAlpha = options.opacity;
+  const mark = logo ? logoMark(ctx, logo, markWidth) : textMark(ctx, text, markWidth);
+
+  if (options.tile) {
+    // 绕中心旋转后按网格平铺，范围取对角线长度保证铺满
+    const diagonal = Math.hypot(width, height);
+    const stepX = mark.width * TILE_GAP;
+    const stepY = mark.height * TILE_GAP * 2;
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(TILE_ANGLE);
+    for (let y = -diagonal / 2; y < diagonal / 2; y += stepY) {
+      for (let x = -diagonal / 2; x < diagonal / 2; x += stepX) {
+        mark.draw(x, y);
+      }
+    }
+  } else {
+    const [x, y] = placeMark(mark, options.position, width, height);
+    mark.draw(x, y);
+  }
+
+  ctx.restore();
+  logo?.close();
+}
@@ -0,0 +1,251 @@
+// Worker 池：在多个 Worker 中并发执行图片处理流水线和导入时的预分析
+// 不支持 Worker / OffscreenCanvas 的浏览器回退到主线程执行
+
+import { supportsOffscreenCanvas } from './canvas';
+import {
+  analyzeSource,
+  DecodeError,
+  decodeWithImageElement,
+  runPipeline,
+  type PipelineOptions,
+  type PipelineResult,
+  type PipelineVariant,
+  type ProgressFn,
+  type SourceAnalysis
+} from './imagePipeline';
+
+// 跨线程传输的结果：Blob 转为 ArrayBuffer 以 transferable 方式传回
+export type SerializedVariant = Omit<PipelineVariant, 'blob'> & {
+  buffer: ArrayBuffer;
+  type: string;
+};
+
+export type SerializedResult = Omit<PipelineResult, 'blob' | 'variants'> & {
+  buffer: ArrayBuffer;
+  type: string;
+  variants: SerializedVariant[];
+};
+
+// process：运行处理流水线；analyze：预分析原图
+export type WorkerRequest =
+  | { id: number; kind: 'process'; source: Blob | ImageBitmap; inputType: string; options: PipelineOptions }
+  | { id: number; kind: 'analyze'; source: Blob | ImageBitmap };
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: SerializedResult }
+  | { id: number; type: 'analyzed'; analysis: SourceAnalysis }
+  | { id: number; type: 'error'; message: string; decodeFailed: boolean };
+
+type TaskResult = PipelineResult | SourceAnalysis;
+
+type Task = {
+  request: WorkerRequest;
+  onProgress: ProgressFn;
+  resolve: (result: TaskResult) => void;
+  reject: (error: Error) => void;
+};
+
+type RequestInit =
+  | { kind: 'process'; source: Blob | ImageBitmap; inputType: string; options: PipelineOptions }
+  | { kind: 'analyze'; source: Blob | ImageBitmap };
+
+export const supportsWorkerPipeline = typeof Worker !== 'undefined' && supportsOffscreenCanvas;
+
+export const DEFAULT_CONCURRENCY = Math.max(
+  1,
+  Math.min(4, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2)
+);
+
+export function deserializeResult(result: SerializedResult): PipelineResult {
+  const { buffer, type, variants, ...rest } = result;
+  return {
+    ...rest,
+    blob: new Blob([buffer], { type }),
+    variants: variants.map(({ buffer: variantBuffer, type: variantType, ...variant }) => ({
+      ...variant,
+      blob: new Blob([variantBuffer], { type: variantType })
+    }))
+  };
+}
+
+/**
+ * 图片处理 Worker 池
+ */
+export class ImageWorkerPool {
+  private size: number;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: Task[] = [];
+  private running = new Map<number, { worker: Worker | null; task: Task }>();
+  private nextId = 1;
+
+  constructor(size = DEFAULT_CONCURRENCY) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * 调整并发数，多余的空闲 Worker 会被回收
+   */
+  setSize(size: number) {
+    this.size = Math.max(1, size);
+    while (this.workers.length > this.size && this.idle.length) {
+      const worker = this.idle.pop()!;
+      this.workers = this.workers.filter((w) => w !== worker);
+      worker.terminate();
+    }
+    this.drain();
+  }
+
+  /**
+   * 处理一张图片；Worker 中无法解码时改在主线程解码后重试
+   */
+  run(
+    file: Blob,
+    inputType: string,
+    options: PipelineOptions,
+    onProgress: ProgressFn = () => {}
+  ): Promise<PipelineResult> {
+    return this.withDecodeRetry(file, (source) =>
+      this.enqueue<PipelineResult>({ kind: 'process', source, inputType, options }, onProgress)
+    );
+  }
+
+  /**
+   * 预分析原图（主体区域、指纹、质量检查）；同样在 Worker 中无法解码时改在主线程解码后重试
+   */
+  analyze(file: Blob): Promise<SourceAnalysis> {
+    return this.withDecodeRetry(file, (source) =>
+      this.enqueue<SourceAnalysis>({ kind: 'analyze', source }, () => {})
+    );
+  }
+
+  /**
+   * 终止所有 Worker，未完成的任务会被拒绝
+   */
+  terminate() {
+    this.workers.forEach((worker) => worker.terminate());
+    this.workers = [];
+    this.idle = [];
+    const pending = [...this.queue, ...Array.from(this.running.values()).map((r) => r.task)];
+    this.queue = [];
+    this.running.clear();
+    pending.forEach((task) => task.reject(new Error('Worker pool terminated')));
+  }
+
+  private async withDecodeRetry<T>(file: Blob, start: (source: Blob | ImageBitmap) => Promise<T>): Promise<T> {
+    try {
+      return await start(file);
+    } catch (error) {
+      if (!(error instanceof DecodeError) || typeof document === 'undefined') throw error;
+      return start(await decodeWithImageElement(file));
+    }
+  }
+
+  private enqueue<T extends TaskResult>(init: RequestInit, onProgress: ProgressFn): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        request: { ...init, id: this.nextId++ },
+        onProgress,
+        resolve: resolve as (result: TaskResult) => void,
+        reject
+      });
+      this.drain();
+    });
+  }
+
+  private drain() {
+    while (this.queue.length && this.running.size < this.size) {
+      const task = this.queue.shift()!;
+      if (supportsWorkerPipeline) {
+        this.dispatch(task, this.acquireWorker());
+      } else {
+        this.runInline(task);
+      }
+    }
+  }
+
+  private acquireWorker(): Worker {
+    const idle = this.idle.pop();
+    if (idle) return idle;
+
+    const worker = new Worker(new URL('../workers/imageWorker.ts', import.meta.url), {
+      type: 'module'
+    });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(worker, event.data);
+    worker.onerror = (event) => this.handleCrash(worker, event.message);
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private dispatch(task: Task, worker: Worker) {
+    const { request } = task;
+    this.running.set(request.id, { worker, task });
+    const transfer = request.source instanceof Blob ? [] : [request.source];
+    worker.postMessage(request, transfer);
+  }
+
+  private async runInline(task: Task) {
+    const { request } = task;
+    this.running.set(request.id, { worker: null, task });
+    try {
+      task.resolve(
+        request.kind === 'analyze'
+          ? await analyzeSource(request.source)
+          : await runPipeline(request.source, request.inputType, request.options, task.onProgress)
+      );
+    } catch (error) {
+      task.reject(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.running.delete(request.id);
+      this.drain();
+    }
+  }
+
+  private handleMessage(worker: Worker, message: WorkerResponse) {
+    const entry = this.running.get(message.id);
+    if (!entry) return;
+
+    if (message.type === 'progress') {
+      entry.task.onProgress(message.progress);
+      return;
+    }
+
+    this.running.delete(message.id);
+    this.release(worker);
+
+    if (message.type === 'done') {
+      entry.task.resolve(deserializeResult(message.result));
+    } else if (message.type === 'analyzed') {
+      entry.task.resolve(message.analysis);
+    } else if (message.decodeFailed) {
+      entry.task.reject(new DecodeError(message.message));
+    } else {
+      entry.task.reject(new Error(message.message));
+    }
+  }
+
+  // Worker 意外崩溃：拒绝它正在处理的任务并替换掉它
+  private handleCrash(worker: Worker, message: string) {
+    for (const [id, entry] of this.running) {
+      if (entry.worker === worker) {
+        this.running.delete(id);
+        entry.task.reject(new Error(message || 'Worker crashed'));
+      }
+    }
+    worker.terminate();
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+    this.drain();
+  }
+
+  private release(worker: Worker) {
+    if (this.workers.length > this.size) {
+      worker.terminate();
+      this.workers = this.workers.filter((w) => w !== worker);
+    } else {
+      this.idle.push(worker);
+    }
+    this.drain();
+  }
+}
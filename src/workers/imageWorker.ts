@@ -0,0 +1,52 @@
+// 图片处理 Worker：在 OffscreenCanvas 上运行处理流水线和导入时的预分析
+
+import { analyzeSource, DecodeError, runPipeline } from '../utils/imagePipeline';
+import type { WorkerRequest, WorkerResponse } from '../utils/workerPool';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) =>
+  ctx.postMessage(message, transfer);
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+
+  try {
+    if (request.kind === 'analyze') {
+      post({ id, type: 'analyzed', analysis: await analyzeSource(request.source) });
+      return;
+    }
+
+    const result = await runPipeline(request.source, request.inputType, request.options, (progress) =>
+      post({ id, type: 'progress', progress })
+    );
+
+    // 结果转为 ArrayBuffer，以 transferable 方式零拷贝传回主线程
+    const { blob, variants, ...rest } = result;
+    const buffer = await blob.arrayBuffer();
+    const serializedVariants = await Promise.all(
+      variants.map(async ({ blob: variantBlob, ...variant }) => ({
+        ...variant,
+        buffer: await variantBlob.arrayBuffer(),
+        type: variantBlob.type
+      }))
+    );
+
+    post(
+      {
+        id,
+        type: 'done',
+        result: { ...rest, buffer, type: blob.type, variants: serializedVariants }
+      },
+      [buffer, ...serializedVariants.map((v) => v.buffer)]
+    );
+  } catch (error) {
+    post({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      decodeFailed: error instanceof DecodeError
+    });
+  }
+};
@@ -5,6 +5,13 @@ export default defineConfig({
   plugins: [react()],
   build: {
     target: 'esnext'
+  },
+  worker: {
+    format: 'es'
+  },
+  // WASM 编码器通过 import.meta.url 加载 .wasm，预构建会破坏其路径
+  optimizeDeps: {
+    exclude: ['@jsquash/jpeg']
   }
 });
 